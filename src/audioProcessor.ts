@@ -1,16 +1,58 @@
-import { basename, join } from 'node:path';
+import { basename, extname, join } from 'node:path';
 import { confirm, input } from '@inquirer/prompts';
 import { execa } from 'execa';
 import type { SoundcloudTrack } from 'soundcloud.ts';
+import {
+	DEFAULT_OUTPUT_FORMAT,
+	formatOutputFormat,
+	getEncoderArgs,
+	getMetadataArgs,
+	getOutputExtension,
+	getTagFormatArgs,
+	isInOutputFormat,
+	type OutputFormat,
+	supportsArtwork,
+} from './outputFormat';
 import type { Metadata } from './types';
 import {
 	getDefaultMetadata,
 	isLosslessFormat,
 	isMp3Format,
-	losslessToMp3Filename,
+	METADATA_FIELDS,
 	REPO_URL,
+	replaceExtension,
+	validateMetadataField,
 } from './utils';
 
+// Lowercase names used in prompts ("Check and correct the ...")
+const FIELD_NAMES: Record<keyof Metadata, string> = {
+	title: 'title',
+	artist: 'artist',
+	album: 'album',
+	genre: 'genre',
+	date: 'release date',
+	label: 'label',
+	bpm: 'BPM',
+	key: 'key',
+	composer: 'composer',
+	trackNumber: 'track number',
+	discNumber: 'disc number',
+	comment: 'comment',
+	sourceUrl: 'source URL',
+};
+
+// Always prompted for; the rest only when asked to
+const CORE_FIELDS: Array<keyof Metadata> = [
+	'title',
+	'artist',
+	'album',
+	'genre',
+];
+
+function capitalize(value: string): string {
+	return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
 export class AudioProcessor {
 	private ffmpegBin: string;
 	private ffprobeBin: string;
@@ -68,9 +110,16 @@ export class AudioProcessor {
 		}
 	}
 
+	// Metadata fetched from SoundCloud, with any values given up front (e.g. CLI
+	// flags) taking precedence.
+	getMetadata(track: SoundcloudTrack, overrides: Metadata = {}): Metadata {
+		return { ...getDefaultMetadata(track), ...overrides };
+	}
+
 	async promptForMetadata(
 		track: SoundcloudTrack,
 		filename: string,
+		overrides: Metadata = {},
 	): Promise<Metadata> {
 		// if file is MP3, show existing metadata and ask if user wants to retag
 		if (isMp3Format(filename)) {
@@ -100,46 +149,50 @@ export class AudioProcessor {
 			}
 		}
 
-		const { title, artist, album, genre } = getDefaultMetadata(track);
+		const fetched = this.getMetadata(track, overrides);
 
 		console.log('\nFetched metadata:');
-		console.log('  Title:', title || '(not set)');
-		console.log('  Artist:', artist || '(not set)');
-		console.log('  Album:', album || '(not set)');
-		console.log('  Genre:', genre || '(not set)');
+		for (const field of METADATA_FIELDS) {
+			console.log(
+				`  ${capitalize(FIELD_NAMES[field])}:`,
+				fetched[field] || '(not set)',
+			);
+		}
 		console.log();
 
 		console.log(
-			'Now you can correct the metadata for the resulting MP3 file. All fields are optional and will be used if provided.',
+			'Now you can correct the metadata for the resulting file. All fields are optional and will be used if provided.',
 		);
 
-		const correctedTitle = await input({
-			message: 'Check and correct the title',
-			default: title,
-			prefill: 'editable',
-		});
-		const correctedArtist = await input({
-			message: 'Check and correct the artist',
-			default: artist,
-			prefill: 'editable',
-		});
-		const correctedAlbum = await input({
-			message: 'Check and correct the album',
-			default: album,
-			prefill: 'editable',
-		});
-		const correctedGenre = await input({
-			message: 'Check and correct the genre',
-			default: genre,
-			prefill: 'editable',
+		const corrected: Metadata = { ...fetched };
+		const promptField = async (field: keyof Metadata) => {
+			const value = await input({
+				message: `Check and correct the ${FIELD_NAMES[field]}`,
+				default: fetched[field],
+				prefill: 'editable',
+				validate: (value) => validateMetadataField(field, value),
+			});
+			corrected[field] = value.trim();
+		};
+
+		for (const field of CORE_FIELDS) {
+			await promptField(field);
+		}
+
+		const editMore = await confirm({
+			message:
+				'Do you want to edit the other tags (release date, label, BPM, key, ...)?',
+			default: false,
 		});
+		if (editMore) {
+			for (const field of METADATA_FIELDS) {
+				if (!CORE_FIELDS.includes(field)) {
+					await promptField(field);
+				}
+			}
+		}
 
-		return {
-			title: correctedTitle.trim(),
-			artist: correctedArtist.trim(),
-			album: correctedAlbum.trim(),
-			genre: correctedGenre.trim(),
-		};
+		return corrected;
 	}
 
 	async processAudio(
@@ -147,6 +200,7 @@ export class AudioProcessor {
 		metadata: Metadata,
 		artwork: { buffer: ArrayBuffer; fileName: string },
 		losslessHandling: 'prompt' | 'always' | 'never' = 'prompt',
+		outputFormat: OutputFormat = DEFAULT_OUTPUT_FORMAT,
 	): Promise<string> {
 		const inputPath = join('./downloads', filename);
 
@@ -158,13 +212,20 @@ export class AudioProcessor {
 		}
 
 		try {
-			// if it is a WAV, AIFF, or FLAC, we convert it to MP3
+			// a lossless file that already is in the requested format (e.g. FLAC to
+			// FLAC) is only retagged
+			if (isInOutputFormat(filename, outputFormat)) {
+				await this.retag(inputPath, artworkPath, metadata, outputFormat);
+				return inputPath;
+			}
+			// if it is a WAV, AIFF, or FLAC, we convert it to the output format
 			if (isLosslessFormat(filename)) {
-				const outputPath = await this.convertLosslessToMp3(
+				const outputPath = await this.convertLossless(
 					inputPath,
 					artworkPath,
 					metadata,
 					filename,
+					outputFormat,
 				);
 
 				// ask if you want to remove the lossless file
@@ -187,12 +248,20 @@ export class AudioProcessor {
 			}
 			// otherwise if it is an MP3, we retag it with the correct metadata
 			else if (isMp3Format(filename)) {
+				if (outputFormat.codec !== 'mp3') {
+					// re-encoding a lossy file would only lose quality
+					console.log(
+						`Source is an MP3, keeping it as MP3 instead of converting to ${formatOutputFormat(outputFormat)}`,
+					);
+				}
+
 				// if metadata is empty, skip retagging
-				const hasMetadata =
-					metadata.title || metadata.artist || metadata.album || metadata.genre;
+				const hasMetadata = Object.values(metadata).some((value) => value);
 
 				if (hasMetadata) {
-					await this.retagMp3(inputPath, artworkPath, metadata);
+					await this.retag(inputPath, artworkPath, metadata, {
+						codec: 'mp3',
+					});
 				}
 			} else {
 				console.warn(
@@ -210,108 +279,148 @@ export class AudioProcessor {
 		}
 	}
 
-	private async convertLosslessToMp3(
+	// Bit depth of the first audio stream, used to keep AIFF output lossless
+	private async readBitDepth(inputPath: string): Promise<number | undefined> {
+		try {
+			const { stdout } = await execa(this.ffprobeBin, [
+				'-v',
+				'quiet',
+				'-print_format',
+				'json',
+				'-select_streams',
+				'a:0',
+				'-show_streams',
+				inputPath,
+			]);
+			const stream = (
+				JSON.parse(stdout) as {
+					streams?: Array<{
+						bits_per_sample?: number;
+						bits_per_raw_sample?: string;
+					}>;
+				}
+			).streams?.[0];
+			// FLAC reports its depth in bits_per_raw_sample, PCM in bits_per_sample
+			const bitDepth = Math.max(
+				stream?.bits_per_sample ?? 0,
+				Number(stream?.bits_per_raw_sample ?? 0),
+			);
+			return bitDepth || undefined;
+		} catch {
+			return undefined;
+		}
+	}
+
+	private getInputArgs(
+		inputPath: string,
+		artworkPath: string,
+		outputFormat: OutputFormat,
+	): string[] {
+		if (!supportsArtwork(outputFormat)) {
+			console.warn(
+				`${formatOutputFormat(outputFormat)} files can't embed artwork, skipping it`,
+			);
+			return ['-i', inputPath];
+		}
+		return ['-i', inputPath, '-i', artworkPath];
+	}
+
+	private getTagArgs(metadata: Metadata, outputFormat: OutputFormat): string[] {
+		const args: string[] = [];
+
+		if (supportsArtwork(outputFormat)) {
+			args.push(
+				'-map',
+				'1:v',
+				'-c:v',
+				'copy',
+				'-disposition:v',
+				'attached_pic',
+				'-metadata:s:v',
+				'title=Album cover',
+				'-metadata:s:v',
+				'comment=Cover (front)',
+			);
+		}
+
+		const { args: metadataArgs, unsupported } = getMetadataArgs(
+			metadata,
+			outputFormat,
+		);
+		if (unsupported.length) {
+			console.warn(
+				`${formatOutputFormat(outputFormat)} files can't store ${unsupported.join(', ')}, skipping`,
+			);
+		}
+		args.push(...metadataArgs);
+
+		return args;
+	}
+
+	private async convertLossless(
 		inputPath: string,
 		artworkPath: string,
 		metadata: Metadata,
 		filename: string,
+		outputFormat: OutputFormat,
 	): Promise<string> {
-		const outputPath = join('./downloads', losslessToMp3Filename(filename));
+		const outputPath = join(
+			'./downloads',
+			replaceExtension(filename, getOutputExtension(outputFormat)),
+		);
+		const bitDepth =
+			outputFormat.codec === 'aiff'
+				? await this.readBitDepth(inputPath)
+				: undefined;
 
 		const args: string[] = [
-			'-i',
-			inputPath,
-			'-i',
-			artworkPath,
+			...this.getInputArgs(inputPath, artworkPath, outputFormat),
 			'-map',
 			'0:a',
-			'-c:a',
-			'libmp3lame',
-			'-b:a',
-			'320k',
-			'-id3v2_version',
-			'3',
-			'-map',
-			'1:v',
-			'-c:v',
-			'copy',
-			'-metadata:s:v',
-			'title=Album cover',
-			'-metadata:s:v',
-			'comment=Cover (front)',
+			...getEncoderArgs(outputFormat, bitDepth),
+			...this.getTagArgs(metadata, outputFormat),
+			'-y',
+			outputPath,
 		];
 
-		if (metadata.title) {
-			args.push('-metadata', `title=${metadata.title}`);
-		}
-		if (metadata.artist) {
-			args.push('-metadata', `artist=${metadata.artist}`);
-		}
-		if (metadata.album) {
-			args.push('-metadata', `album=${metadata.album}`);
-		}
-		if (metadata.genre) {
-			args.push('-metadata', `genre=${metadata.genre}`);
-		}
-
-		args.push('-y', outputPath);
-
-		console.log('Converting Lossless to MP3 (320kbps)...');
+		const label = formatOutputFormat(outputFormat);
+		console.log(`Converting Lossless to ${label}...`);
 		await execa(this.ffmpegBin, args);
 		console.log(`✓ Converted to ${outputPath}`);
 		return outputPath;
 	}
 
-	private async retagMp3(
+	// Rewrites the tags and artwork without re-encoding the audio
+	private async retag(
 		inputPath: string,
 		artworkPath: string,
 		metadata: Metadata,
+		outputFormat: OutputFormat,
 	): Promise<void> {
 		const filename = basename(inputPath);
+		const extension = extname(filename);
 		const outputPath = join(
 			'./downloads',
-			filename.replace(/\.mp3$/i, '_retagged.mp3'),
+			`${filename.slice(0, -extension.length)}_retagged${extension}`,
 		);
 
 		const args: string[] = [
-			'-i',
-			inputPath,
-			'-i',
-			artworkPath,
+			...this.getInputArgs(inputPath, artworkPath, outputFormat),
 			'-map',
 			'0:a',
 			'-c:a',
 			'copy',
-			'-id3v2_version',
-			'3',
+			...getTagFormatArgs(outputFormat),
 			'-map_metadata',
 			'-1', // clear existing metadata
-			'-map',
-			'1:v',
-			'-c:v',
-			'copy',
-			'-metadata:s:v',
-			'title=Album cover',
-			'-metadata:s:v',
-			'comment=Cover (front)',
+			...this.getTagArgs(metadata, outputFormat),
+			'-y',
+			outputPath,
 		];
 
-		if (metadata.title) {
-			args.push('-metadata', `title=${metadata.title}`);
-		}
-		if (metadata.artist) {
-			args.push('-metadata', `artist=${metadata.artist}`);
-		}
-		if (metadata.album) {
-			args.push('-metadata', `album=${metadata.album}`);
-		}
-		if (metadata.genre) {
-			args.push('-metadata', `genre=${metadata.genre}`);
-		}
-
-		args.push('-y', outputPath);
-
-		console.log('Retagging MP3...');
+		console.log(
+			`Retagging ${formatOutputFormat({ codec: outputFormat.codec })}...`,
+		);
 		await execa(this.ffmpegBin, args);
 
 		// replace the original file with the retagged one
@@ -0,0 +1,108 @@
+import { describe, expect, spyOn, test } from 'bun:test';
+import { EventEmitter } from 'node:events';
+import type { Browser } from 'puppeteer';
+import { BrowserPool } from './browserPool';
+
+// Just enough of a puppeteer Browser for the pool
+class FakeBrowser extends EventEmitter {
+	connected = true;
+
+	async close() {
+		this.connected = false;
+		this.emit('disconnected');
+	}
+
+	crash() {
+		this.connected = false;
+		this.emit('disconnected');
+	}
+}
+
+function createPool(maxJobs = 10) {
+	const browsers: FakeBrowser[] = [];
+	const pool = new BrowserPool({
+		launch: async () => {
+			const browser = new FakeBrowser();
+			browsers.push(browser);
+			return browser as unknown as Browser;
+		},
+		maxJobs,
+	});
+	return { pool, browsers };
+}
+
+const job = async (browser: Browser) => browser as unknown as FakeBrowser;
+
+describe('BrowserPool', () => {
+	test('reuses the browser between jobs', async () => {
+		const { pool, browsers } = createPool();
+
+		const first = await pool.run(job);
+		const second = await pool.run(job);
+
+		expect(second).toBe(first);
+		expect(browsers).toHaveLength(1);
+		expect(first.connected).toBe(true);
+	});
+
+	test('restarts the browser after the maximum number of jobs', async () => {
+		const log = spyOn(console, 'log').mockImplementation(() => {});
+		const { pool, browsers } = createPool(2);
+
+		try {
+			await pool.run(job);
+			await pool.run(job);
+			const third = await pool.run(job);
+
+			expect(browsers).toHaveLength(2);
+			expect(browsers[0]?.connected).toBe(false);
+			expect(third).toBe(browsers[1] as FakeBrowser);
+		} finally {
+			log.mockRestore();
+		}
+	});
+
+	test('launches a new browser after a crash', async () => {
+		const warn = spyOn(console, 'warn').mockImplementation(() => {});
+		const { pool, browsers } = createPool();
+
+		try {
+			const first = await pool.run(job);
+			first.crash();
+			const second = await pool.run(job);
+
+			expect(second).not.toBe(first);
+			expect(browsers).toHaveLength(2);
+			expect(warn).toHaveBeenCalledTimes(1);
+		} finally {
+			warn.mockRestore();
+		}
+	});
+
+	test('retries a failed launch with the next job', async () => {
+		let attempts = 0;
+		const pool = new BrowserPool({
+			launch: async () => {
+				attempts++;
+				if (attempts === 1) {
+					throw new Error('no display');
+				}
+				return new FakeBrowser() as unknown as Browser;
+			},
+			maxJobs: 10,
+		});
+
+		await expect(pool.run(job)).rejects.toThrow('no display');
+		expect((await pool.run(job)).connected).toBe(true);
+	});
+
+	test('closes the browser on shutdown', async () => {
+		const { pool } = createPool();
+		const browser = await pool.run(job);
+
+		await pool.close();
+
+		expect(browser.connected).toBe(false);
+		await expect(pool.run(job)).rejects.toThrow('shut down');
+	});
+});
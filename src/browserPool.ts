@@ -0,0 +1,95 @@
+import type { Browser } from 'puppeteer';
+
+// Keeps one Chromium warm between the browser jobs of the server, so a job
+// doesn't pay for launching it and loading the cookies again. Jobs get their
+// own pages (see HypedditDownloader.attachBrowser) and share the persistent
+// profile and cookies of the browser.
+
+export interface BrowserPoolOptions {
+	launch: () => Promise<Browser>;
+	// Chromium is restarted after this many jobs, so leaked pages and memory
+	// don't pile up in a server that runs for weeks
+	maxJobs: number;
+}
+
+export class BrowserPool {
+	private readonly options: BrowserPoolOptions;
+	private browser: Promise<Browser> | null = null;
+	private jobs = 0;
+	private closed = false;
+
+	constructor(options: BrowserPoolOptions) {
+		this.options = options;
+	}
+
+	private launch(): Promise<Browser> {
+		this.jobs = 0;
+		const launching = this.options.launch().then((browser) => {
+			browser.once('disconnected', () => {
+				// closed by us, or replaced already
+				if (this.browser !== launching) {
+					return;
+				}
+				console.warn(
+					'Browser disconnected unexpectedly, it is restarted for the next job',
+				);
+				this.browser = null;
+			});
+			return browser;
+		});
+		this.browser = launching;
+		// a failed launch is retried by the next job
+		launching.catch(() => {
+			if (this.browser === launching) {
+				this.browser = null;
+			}
+		});
+		return launching;
+	}
+
+	private async getBrowser(): Promise<Browser> {
+		const browser = await this.browser?.catch(() => null);
+		if (browser?.connected) {
+			return browser;
+		}
+		return this.launch();
+	}
+
+	// Runs `job` on the warm browser, launching it first if needed
+	async run<T>(job: (browser: Browser) => Promise<T>): Promise<T> {
+		if (this.closed) {
+			throw new Error('The browser was shut down');
+		}
+		const browser = await this.getBrowser();
+		try {
+			return await job(browser);
+		} finally {
+			this.jobs++;
+			if (this.jobs >= this.options.maxJobs && !this.closed) {
+				console.log(`Restarting the browser after ${this.jobs} jobs...`);
+				await this.stop();
+				// warm again before the next job comes in
+				this.launch().catch((error) => {
+					console.warn('Failed to restart the browser:', error);
+				});
+			}
+		}
+	}
+
+	// Closes the browser, the next job launches a new one. Needed before anything
+	// else opens the ./browser-data profile.
+	async stop(): Promise<void> {
+		const launching = this.browser;
+		this.browser = null;
+		const browser = await launching?.catch(() => null);
+		if (browser?.connected) {
+			await browser.close();
+		}
+	}
+
+	// For shutting down the server; jobs started afterwards fail
+	async close(): Promise<void> {
+		this.closed = true;
+		await this.stop();
+	}
+}
@@ -0,0 +1,394 @@
+import type { Page } from 'puppeteer';
+import {
+	type BrowserGateContext,
+	type BrowserlessGateHandler,
+	registerGate,
+} from './gateRegistry';
+import Selectors from './selectors';
+import { getTiming } from './timing';
+import { timeout } from './utils';
+
+// The gate types this tool knows out of the box. Their browserless handlers are
+// only for steps Hypeddit doesn't verify: clicking through them toggles CSS
+// classes, and the download request declares them as skipped via
+// skip_gate_steps[]. Spotify `sp` is verified server-side and only handled
+// without a browser with a stored Spotify session.
+
+async function handleEmailSlide(page: Page, context: BrowserGateContext) {
+	const nextButton = await page.waitForSelector(Selectors.EMAIL_NEXT_BUTTON);
+	if (!nextButton) {
+		throw new Error('Next button not found');
+	}
+	// not all email gates require entering a name
+	const emailNameInput = await page.$(Selectors.EMAIL_NAME_INPUT);
+	if (emailNameInput) {
+		await page.type(Selectors.EMAIL_NAME_INPUT, context.config.name);
+	}
+	await page.type(Selectors.EMAIL_ADDRESS_INPUT, context.config.email);
+	await nextButton.click();
+}
+
+// Handles gates that list individual action buttons (follow/like/repost/...)
+// which each open a popup and mark themselves as done on click. Hypeddit does
+// not verify the actions were actually performed, so closing the popup is enough.
+async function handleSocialButtonsSlide(
+	page: Page,
+	context: BrowserGateContext,
+	platform: string,
+	options: {
+		statusButtonSelector: string;
+		undoneButtonSelector: string;
+		nextButtonSelector: string;
+		windowUrlPart: string;
+	},
+) {
+	const {
+		statusButtonSelector,
+		undoneButtonSelector,
+		nextButtonSelector,
+		windowUrlPart,
+	} = options;
+
+	await page.waitForSelector(statusButtonSelector);
+	// click each button that is not done yet
+	// loop until there are no more buttons with the undone class
+	while (true) {
+		// try to find a button that's not done
+		const button = await page.$(undoneButtonSelector);
+		if (!button) {
+			break;
+		}
+
+		await page.click(undoneButtonSelector);
+
+		// wait for the popup window to appear (with timeout)
+		let popupWindow: Page | undefined;
+		const maxWaitTime = getTiming().popupMs;
+		const startTime = Date.now();
+		while (!popupWindow && Date.now() - startTime < maxWaitTime) {
+			const pages = await context.browser.pages(true);
+			popupWindow = pages.find(
+				(window) => window !== page && window.url().includes(windowUrlPart),
+			);
+			if (!popupWindow) {
+				await timeout(200);
+			}
+		}
+
+		if (!popupWindow) {
+			throw new Error(`${platform} window not found after clicking button`);
+		}
+		await popupWindow.close();
+
+		// wait for the page to update after closing the window
+		// the button should get the done class instead of undone
+		await timeout(1_000);
+
+		// wait for network to be idle to ensure DOM has updated
+		try {
+			await page.waitForNetworkIdle({ timeout: getTiming().popupCloseMs });
+		} catch {
+			// ignore timeout
+		}
+	}
+
+	// then we can click next
+	await page.waitForSelector(nextButtonSelector);
+	await page.click(nextButtonSelector);
+}
+
+async function handleSoundcloudSlide(page: Page, context: BrowserGateContext) {
+	// check if #skipper_sc exists, if yes we can just click it to skip this step
+	const skipperSc = await page.evaluate((skipperScSelector) => {
+		return document.querySelector(skipperScSelector) !== null;
+	}, Selectors.SC_SKIPPER_BUTTON);
+	if (skipperSc) {
+		console.log('Soundcloud gate can be skipped for this post. Skipping...');
+		await page.click(Selectors.SC_SKIPPER_BUTTON);
+		return;
+	}
+
+	// Hypeddit no longer connects to SoundCloud via OAuth: the gate now lists
+	// individual follow/like/comment/repost buttons that each open a popup and
+	// are marked done on click, just like the Instagram/TikTok gates.
+	const statusButtons = await page.$(Selectors.SC_STATUS_BUTTON);
+	if (statusButtons) {
+		await handleSocialButtonsSlide(page, context, 'SoundCloud', {
+			statusButtonSelector: Selectors.SC_STATUS_BUTTON,
+			undoneButtonSelector: Selectors.SC_STATUS_UNDONE_BUTTON,
+			nextButtonSelector: Selectors.SC_NEXT_BUTTON,
+			windowUrlPart: 'soundcloud.com',
+		});
+		return;
+	}
+
+	// legacy OAuth connect flow
+	// not all hypeddit soundcloud gates have a comment text field, if it does not exist we can skip this
+	const scCommentText = await page.$(Selectors.SC_COMMENT_TEXT_INPUT);
+	if (scCommentText) {
+		// if it exists, we need to enter a comment
+		await page.type(Selectors.SC_COMMENT_TEXT_INPUT, context.config.comment);
+		await timeout(750);
+	}
+
+	// then we can click next
+	const loginButton = await page.waitForSelector(Selectors.SC_LOGIN_BUTTON);
+	if (!loginButton) {
+		throw new Error('Login button not found');
+	}
+	await loginButton.click();
+	await timeout(1_500);
+
+	// wait for the SoundCloud window to appear (with timeout)
+	let soundCloudWindow: Page | undefined;
+	const maxWaitTime = getTiming().popupMs;
+	const startTime = Date.now();
+	while (!soundCloudWindow && Date.now() - startTime < maxWaitTime) {
+		const pages = await context.browser.pages(true);
+		soundCloudWindow = pages.find((window) =>
+			window.url().includes('soundcloud.com'),
+		);
+		if (!soundCloudWindow) {
+			await timeout(200);
+		}
+	}
+
+	if (!soundCloudWindow) {
+		throw new Error('SoundCloud window not found after clicking login button');
+	}
+	await soundCloudWindow.bringToFront();
+	await soundCloudWindow.setViewport({ width: 1920, height: 1080 });
+	await soundCloudWindow.waitForNetworkIdle({
+		timeout: getTiming().popupLoadMs,
+	});
+
+	const submitApprovalButton = await soundCloudWindow.waitForSelector(
+		Selectors.SC_SUBMIT_APPROVAL_BUTTON,
+	);
+	if (!submitApprovalButton) {
+		throw new Error('Submit approval button not found');
+	}
+
+	await soundCloudWindow.click(Selectors.SC_SUBMIT_APPROVAL_BUTTON);
+	// wait for window to close
+	while (!soundCloudWindow.isClosed()) {
+		await timeout(100);
+	}
+}
+
+async function handleInstagramSlide(page: Page, context: BrowserGateContext) {
+	// check if #skipper_ig exists, if yes we can just click it to skip this step
+	const skipperIg = await page.evaluate((skipperIgSelector) => {
+		return document.querySelector(skipperIgSelector) !== null;
+	}, Selectors.IG_SKIPPER_BUTTON);
+	if (skipperIg) {
+		console.log('Instagram gate can be skipped for this post. Skipping...');
+		await page.click(Selectors.IG_SKIPPER_BUTTON);
+		return;
+	}
+
+	await handleSocialButtonsSlide(page, context, 'Instagram', {
+		statusButtonSelector: Selectors.IG_STATUS_BUTTON,
+		undoneButtonSelector: Selectors.IG_STATUS_UNDONE_BUTTON,
+		nextButtonSelector: Selectors.IG_NEXT_BUTTON,
+		windowUrlPart: 'instagram.com',
+	});
+}
+
+async function handleTiktokSlide(page: Page, context: BrowserGateContext) {
+	// check if #skipper_tk exists, if yes we can just click it to skip this step
+	const skipperTk = await page.evaluate((skipperTkSelector) => {
+		return document.querySelector(skipperTkSelector) !== null;
+	}, Selectors.TK_SKIPPER_BUTTON);
+	if (skipperTk) {
+		console.log('TikTok gate can be skipped for this post. Skipping...');
+		await page.click(Selectors.TK_SKIPPER_BUTTON);
+		return;
+	}
+
+	await handleSocialButtonsSlide(page, context, 'TikTok', {
+		statusButtonSelector: Selectors.TK_STATUS_BUTTON,
+		undoneButtonSelector: Selectors.TK_STATUS_UNDONE_BUTTON,
+		nextButtonSelector: Selectors.TK_NEXT_BUTTON,
+		windowUrlPart: 'tiktok.com',
+	});
+}
+
+async function handleYoutubeSlide(page: Page, context: BrowserGateContext) {
+	// check if #skipper_yt exists, if yes we can just click it to skip this step
+	const skipperYt = await page.evaluate((skipperYtSelector) => {
+		return document.querySelector(skipperYtSelector) !== null;
+	}, Selectors.YT_SKIPPER_BUTTON);
+	if (skipperYt) {
+		console.log('YouTube gate can be skipped for this post. Skipping...');
+		await page.click(Selectors.YT_SKIPPER_BUTTON);
+		return;
+	}
+
+	await handleSocialButtonsSlide(page, context, 'YouTube', {
+		statusButtonSelector: Selectors.YT_STATUS_BUTTON,
+		undoneButtonSelector: Selectors.YT_STATUS_UNDONE_BUTTON,
+		nextButtonSelector: Selectors.YT_NEXT_BUTTON,
+		windowUrlPart: 'youtube.com',
+	});
+}
+
+async function handleFacebookSlide(page: Page) {
+	await page.waitForSelector(Selectors.FB_NEXT_BUTTON);
+	await page.click(Selectors.FB_NEXT_BUTTON);
+}
+
+async function handleSpotifySlide(page: Page, context: BrowserGateContext) {
+	// check if #skipper_sp exists, if yes we can just click it to skip this step
+	const skipperSp = await page.evaluate((skipperSpSelector) => {
+		return document.querySelector(skipperSpSelector) !== null;
+	}, Selectors.SP_SKIPPER_BUTTON);
+	if (skipperSp) {
+		console.log('Spotify gate can be skipped for this post. Skipping...');
+		await page.click(Selectors.SP_SKIPPER_BUTTON);
+		return;
+	}
+
+	if (!context.spotifyCookiesFound) {
+		throw new Error(
+			'Spotify cookies are required to handle the Spotify gate. Please export your Spotify cookies and save them to spotify-cookies.json in the project root.',
+		);
+	}
+
+	await page.waitForSelector(Selectors.SP_LOGIN_BUTTON);
+
+	// if there is an optInSectionSpotify, we should click the anchor with class .optOutOption first
+	const optInSectionSpotify = await page.$(Selectors.SP_OPT_IN_SECTION);
+	if (optInSectionSpotify) {
+		const optOutOption = await optInSectionSpotify.$(
+			Selectors.SP_OPT_OUT_OPTION,
+		);
+		if (optOutOption) {
+			await optOutOption.click();
+		}
+	}
+
+	// then we can click the login button
+	await page.click(Selectors.SP_LOGIN_BUTTON);
+	// TODO: I think this timeout is the only thing that keeps it working when spotify is already authorized,
+	// TODO: Maybe we should also wait for a window to open in parallel to this and it being closed again?
+	await timeout(1_500);
+
+	// we might need to click the accept button in the new window if the app is not authorized yet
+	const browserWindows = await context.browser.pages(true);
+	const spotifyWindow = browserWindows.find((window) =>
+		window.url().includes('spotify.com'),
+	);
+	// TODO: we should also try to deauthorize hypeddit from spotify and see if this code still works
+	if (spotifyWindow) {
+		await spotifyWindow.bringToFront();
+		await spotifyWindow.setViewport({ width: 1920, height: 1080 });
+		await spotifyWindow.waitForNetworkIdle({
+			timeout: getTiming().popupLoadMs,
+		});
+
+		await spotifyWindow.waitForSelector(Selectors.SP_AUTH_ACCEPT_BUTTON, {
+			visible: true,
+		});
+
+		// then we need to click the login button in the new window
+		await spotifyWindow.click(Selectors.SP_AUTH_ACCEPT_BUTTON);
+
+		// wait for window to close
+		while (!spotifyWindow.isClosed()) {
+			await timeout(100);
+		}
+	}
+}
+
+// Submitting the address is all the email step needs
+const emailBrowserless: BrowserlessGateHandler = {
+	handle: async ({ gate, config, post }) => {
+		await post('/verifyEmailAddress', {
+			validateEmailAddress: config.email,
+			fan_gate_id: gate.fanGateId,
+			email_name: config.name,
+			adcode: '',
+			hypesource: '',
+		});
+		return true;
+	},
+};
+
+// Declared as skipped on the download request, nothing to submit
+const skippedBrowserless: BrowserlessGateHandler = {};
+
+// Without a skip button Hypeddit checks that Spotify was connected, which the
+// stored session can do when Hypeddit was authorized on the account before
+const spotifyBrowserless: BrowserlessGateHandler = {
+	canHandle: (page, spotifyCookiesFound) =>
+		page.spotifySkippable ||
+		(spotifyCookiesFound && page.spotifyLoginUrl !== undefined),
+	handle: async ({ page, gateUrl, authorizeSpotify, emitProgress }) => {
+		if (page.spotifySkippable || !page.spotifyLoginUrl) {
+			return false;
+		}
+		emitProgress('Authorizing Spotify without browser...', 50, {
+			currentGate: 'sp',
+		});
+		await authorizeSpotify(new URL(page.spotifyLoginUrl, gateUrl).href);
+		return true;
+	},
+};
+
+registerGate({
+	name: 'email',
+	label: 'Email',
+	difficulty: 1,
+	browser: handleEmailSlide,
+	browserless: emailBrowserless,
+});
+registerGate({
+	name: 'sc',
+	label: 'SoundCloud',
+	difficulty: 3,
+	browser: handleSoundcloudSlide,
+	browserless: skippedBrowserless,
+});
+registerGate({
+	name: 'ig',
+	label: 'Instagram',
+	difficulty: 2,
+	browser: handleInstagramSlide,
+	browserless: skippedBrowserless,
+});
+registerGate({
+	name: 'tk',
+	label: 'TikTok',
+	difficulty: 2,
+	browser: handleTiktokSlide,
+	browserless: skippedBrowserless,
+});
+registerGate({
+	name: 'yt',
+	label: 'YouTube',
+	difficulty: 2,
+	browser: handleYoutubeSlide,
+	browserless: skippedBrowserless,
+});
+registerGate({
+	name: 'fb',
+	label: 'Facebook',
+	difficulty: 2,
+	browser: handleFacebookSlide,
+	browserless: skippedBrowserless,
+});
+registerGate({
+	name: 'sp',
+	label: 'Spotify',
+	difficulty: 3,
+	browser: handleSpotifySlide,
+	browserless: spotifyBrowserless,
+});
+// the last step of every gate, the browserless path requests the file itself
+registerGate({
+	name: 'dw',
+	label: 'Download',
+	difficulty: 0,
+	browser: (page, { download }) => download(page),
+});
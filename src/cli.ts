@@ -0,0 +1,344 @@
+import { parseArgs } from 'node:util';
+import type { GateInspection } from './hypedditHttp';
+import { type OutputFormat, parseOutputFormat } from './outputFormat';
+import {
+	FILE_EXISTS_ACTIONS,
+	type FileExistsAction,
+	validateOutputTemplate,
+} from './outputPath';
+import type { SelectorCheck } from './selectorCheck';
+import {
+	DEFAULT_EXPIRY_WARNING_DAYS,
+	type StatusLevel,
+	type StatusReport,
+} from './status';
+import type { Metadata } from './types';
+import {
+	validateHypedditUrl,
+	validateMetadataField,
+	validateSoundcloudUrl,
+} from './utils';
+
+export interface CliArgs {
+	urls: string[];
+	file?: string;
+	// Never prompt; missing required values abort with MissingValueError instead.
+	nonInteractive: boolean;
+	hypedditUrl?: string;
+	metadata: Metadata;
+	keepLossless?: boolean;
+	outputFormat?: OutputFormat;
+	outputDirectory?: string;
+	outputTemplate?: string;
+	onFileExists?: FileExistsAction;
+	cleanup?: boolean;
+	headless?: boolean;
+	initializeLogins?: boolean;
+}
+
+// Thrown in non-interactive mode when a value that would otherwise be prompted
+// for was not provided by a flag or config.json.
+export class MissingValueError extends Error {
+	override name = 'MissingValueError';
+}
+
+export type TrackStatus = 'succeeded' | 'failed' | 'skipped';
+
+export interface TrackResult {
+	soundcloudUrl: string;
+	title?: string;
+	status: TrackStatus;
+	outputPath?: string;
+	reason?: string;
+}
+
+export function parseCliArgs(argv: string[]): CliArgs {
+	const { values, positionals } = parseArgs({
+		args: argv,
+		options: {
+			file: { type: 'string', short: 'f' },
+			'non-interactive': { type: 'boolean' },
+			'hypeddit-url': { type: 'string' },
+			title: { type: 'string' },
+			artist: { type: 'string' },
+			album: { type: 'string' },
+			genre: { type: 'string' },
+			date: { type: 'string' },
+			label: { type: 'string' },
+			bpm: { type: 'string' },
+			key: { type: 'string' },
+			composer: { type: 'string' },
+			'track-number': { type: 'string' },
+			'disc-number': { type: 'string' },
+			comment: { type: 'string' },
+			'keep-lossless': { type: 'boolean' },
+			format: { type: 'string' },
+			'output-dir': { type: 'string' },
+			'output-template': { type: 'string' },
+			'on-file-exists': { type: 'string' },
+			cleanup: { type: 'boolean' },
+			headless: { type: 'boolean' },
+			'initialize-logins': { type: 'boolean' },
+		},
+		allowPositionals: true,
+		allowNegative: true,
+	});
+
+	const hypedditUrl = values['hypeddit-url'];
+	if (hypedditUrl !== undefined) {
+		const validation = validateHypedditUrl(hypedditUrl);
+		if (validation !== true) {
+			throw new Error(`--hypeddit-url: ${validation}`);
+		}
+	}
+
+	let outputFormat: OutputFormat | undefined;
+	if (values.format !== undefined) {
+		try {
+			outputFormat = parseOutputFormat(values.format);
+		} catch (error) {
+			throw new Error(
+				`--format: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+	}
+
+	const outputTemplate = values['output-template'];
+	if (outputTemplate !== undefined) {
+		const validation = validateOutputTemplate(outputTemplate);
+		if (validation !== true) {
+			throw new Error(`--output-template: ${validation}`);
+		}
+	}
+
+	const onFileExists = values['on-file-exists'];
+	if (
+		onFileExists !== undefined &&
+		!FILE_EXISTS_ACTIONS.includes(onFileExists as FileExistsAction)
+	) {
+		throw new Error(
+			`--on-file-exists must be one of ${FILE_EXISTS_ACTIONS.join(', ')}`,
+		);
+	}
+
+	const metadata = withoutUnset({
+		title: values.title,
+		artist: values.artist,
+		album: values.album,
+		genre: values.genre,
+		date: values.date,
+		label: values.label,
+		bpm: values.bpm,
+		key: values.key,
+		composer: values.composer,
+		trackNumber: values['track-number'],
+		discNumber: values['disc-number'],
+		comment: values.comment,
+	});
+	for (const [field, value] of Object.entries(metadata) as Array<
+		[keyof Metadata, string]
+	>) {
+		const validation = validateMetadataField(field, value);
+		if (validation !== true) {
+			throw new Error(validation);
+		}
+	}
+
+	return {
+		urls: positionals,
+		file: values.file,
+		// without a terminal (cron, CI, pipes) prompts could only hang
+		nonInteractive: values['non-interactive'] ?? !process.stdin.isTTY,
+		hypedditUrl,
+		metadata,
+		keepLossless: values['keep-lossless'],
+		outputFormat,
+		outputDirectory: values['output-dir'],
+		outputTemplate,
+		onFileExists: onFileExists as FileExistsAction | undefined,
+		cleanup: values.cleanup,
+		headless: values.headless,
+		initializeLogins: values['initialize-logins'],
+	};
+}
+
+// Drops unset fields so the overrides can be spread over fetched metadata.
+function withoutUnset(metadata: Metadata): Metadata {
+	return Object.fromEntries(
+		Object.entries(metadata).filter(([, value]) => value !== undefined),
+	) as Metadata;
+}
+
+// One URL per line; blank lines and lines starting with # are ignored so link
+// lists can be annotated.
+function parseUrlList(text: string): string[] {
+	return text
+		.split(/\r?\n/)
+		.map((line) => line.trim())
+		.filter((line) => line && !line.startsWith('#'));
+}
+
+// Collects SoundCloud URLs from positional arguments, a --file list and piped
+// stdin (in that order). Invalid entries are returned separately so they can be
+// reported instead of silently dropped.
+export async function collectSoundcloudUrls(args: CliArgs): Promise<{
+	urls: string[];
+	invalid: Array<{ url: string; reason: string }>;
+}> {
+	const candidates = [...args.urls];
+
+	if (args.file) {
+		const file = Bun.file(args.file);
+		if (!(await file.exists())) {
+			throw new Error(`URL list file not found: ${args.file}`);
+		}
+		candidates.push(...parseUrlList(await file.text()));
+	}
+
+	if (!process.stdin.isTTY && !args.urls.length && !args.file) {
+		candidates.push(...parseUrlList(await Bun.stdin.text()));
+	}
+
+	const urls: string[] = [];
+	const invalid: Array<{ url: string; reason: string }> = [];
+	for (const url of candidates) {
+		const validation = validateSoundcloudUrl(url);
+		if (validation !== true) {
+			invalid.push({ url, reason: validation });
+		} else if (!urls.includes(url)) {
+			urls.push(url);
+		}
+	}
+
+	return { urls, invalid };
+}
+
+export function printSummary(results: TrackResult[]): void {
+	const count = (status: TrackStatus) =>
+		results.filter((result) => result.status === status).length;
+
+	console.log(
+		`\nSummary: ${count('succeeded')} succeeded, ${count('failed')} failed, ${count('skipped')} skipped`,
+	);
+	console.table(
+		results.map((result) => ({
+			Status: result.status,
+			Track: result.title ?? result.soundcloudUrl,
+			'Output / Reason': result.outputPath ?? result.reason ?? '',
+		})),
+	);
+}
+
+const yesNo = (value: boolean) => (value ? 'yes' : 'no');
+
+export function printInspection(inspection: GateInspection): void {
+	console.log(
+		`\nGate: ${inspection.finalUrl}${inspection.smartLink ? ' (via smart link)' : ''}`,
+	);
+	for (const diagnostic of inspection.diagnostics) {
+		console.log(`  ! ${diagnostic}`);
+	}
+	if (!inspection.parsed) {
+		console.log(
+			'Could not read the gate data from the page, a browser is needed to inspect it',
+		);
+		return;
+	}
+
+	console.table(
+		inspection.steps.map((step) => ({
+			Step: step.step,
+			Gate: step.label,
+			Browserless: yesNo(step.browserless),
+		})),
+	);
+	const orGates = inspection.steps.filter((step) => step.choices.length > 1);
+	for (const step of orGates) {
+		console.log(`OR gate: one of ${step.label}`);
+	}
+	console.log(`Skippable: ${yesNo(inspection.skippable)}`);
+
+	const browserSteps = inspection.steps
+		.filter((step) => !step.browserless)
+		.map((step) => step.label);
+	console.log(
+		inspection.needsBrowser
+			? `Browser needed: yes (${browserSteps.join(', ')})`
+			: 'Browser needed: no, the file can be downloaded over plain HTTP',
+	);
+	if (inspection.needsSpotifyCookies) {
+		console.log(
+			inspection.spotifyCookiesFound
+				? 'Spotify cookies: needed, found spotify-cookies.json'
+				: 'Spotify cookies: needed, but spotify-cookies.json is missing',
+		);
+	}
+}
+
+export function printSelectorChecks(checks: SelectorCheck[]): void {
+	console.table(
+		checks.map((check) => ({
+			Selector: check.key,
+			Status: check.status,
+			Match: check.match?.selector ?? '',
+			Source: check.match?.source ?? '',
+		})),
+	);
+	for (const check of checks) {
+		for (const selector of check.invalid) {
+			console.log(`  ! ${check.key}: ${selector} is not a valid selector`);
+		}
+	}
+	const required = checks.filter(
+		(check) => check.status === 'found' || check.status === 'missing',
+	);
+	const missing = required.filter((check) => check.status === 'missing');
+	console.log(
+		`${required.length - missing.length} of ${required.length} required selectors found`,
+	);
+	if (missing.length) {
+		console.log(
+			`Missing: ${missing.map((check) => check.key).join(', ')}. Add alternatives for them to a selector pack in ./selector-packs`,
+		);
+	}
+}
+
+// Arguments of `doctor [--days N]`: how many days ahead expiring logins warn
+export function parseStatusArgs(argv: string[]): { warningDays: number } {
+	const { values } = parseArgs({
+		args: argv,
+		options: { days: { type: 'string' } },
+	});
+	if (values.days === undefined) {
+		return { warningDays: DEFAULT_EXPIRY_WARNING_DAYS };
+	}
+	const warningDays = Number(values.days);
+	if (!Number.isInteger(warningDays) || warningDays < 0) {
+		throw new Error('--days must be a whole number of days');
+	}
+	return { warningDays };
+}
+
+const STATUS_ICONS: Record<StatusLevel, string> = {
+	ok: '✓',
+	warning: '!',
+	error: '✗',
+};
+
+export function printStatus(report: StatusReport): void {
+	for (const check of report.checks) {
+		console.log(
+			`${STATUS_ICONS[check.status]} ${check.name}: ${check.message}`,
+		);
+	}
+	const warnings = report.checks.filter((check) => check.status === 'warning');
+	if (!report.ok) {
+		console.log(
+			'\nSome checks failed, downloads will not work until they are fixed',
+		);
+	} else if (warnings.length) {
+		console.log(`\nReady, with ${warnings.length} warning(s)`);
+	} else {
+		console.log('\nEverything is ready');
+	}
+}
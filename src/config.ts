@@ -1,10 +1,33 @@
 import { join } from 'node:path';
 import exampleConfig from '../config.example.json';
+import { parseOutputFormat } from './outputFormat';
+import {
+	FILE_EXISTS_ACTIONS,
+	type FileExistsAction,
+	validateOutputTemplate,
+} from './outputPath';
+import { validateProxies } from './proxy';
+import { validateRetryBudgets } from './retry';
+import { validateTiming } from './timing';
 
 export type AppConfig = typeof exampleConfig;
 
 const CONFIG_KEYS = Object.keys(exampleConfig) as Array<keyof AppConfig>;
 
+// Keys added after the first release fall back to their example value so older
+// config.json files keep working.
+const OPTIONAL_CONFIG_KEYS: Array<keyof AppConfig> = [
+	'outputFormat',
+	'outputDirectory',
+	'outputTemplate',
+	'onFileExists',
+	'retries',
+	'proxies',
+	'timing',
+	'maxBrowserlessDownloads',
+	'browserMaxJobs',
+];
+
 const CONFIG_PATH = join(process.cwd(), 'config.json');
 
 function isJSONObject(value: unknown): value is Record<string, unknown> {
@@ -33,6 +56,9 @@ export async function loadConfig(): Promise<AppConfig | null> {
 
 	const entries = CONFIG_KEYS.map((key) => {
 		if (!(key in raw)) {
+			if (OPTIONAL_CONFIG_KEYS.includes(key)) {
+				return [key, exampleConfig[key]] as const;
+			}
 			throw new Error(`config.json is missing required key: ${key}`);
 		}
 		const value = raw[key];
@@ -46,7 +72,44 @@ export async function loadConfig(): Promise<AppConfig | null> {
 		return [key, value] as const;
 	});
 
-	return Object.fromEntries(entries) as AppConfig;
+	const config = Object.fromEntries(entries) as AppConfig;
+	try {
+		parseOutputFormat(config.outputFormat);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		throw new Error(`config.json key outputFormat is invalid: ${message}`);
+	}
+	const templateValidation = validateOutputTemplate(config.outputTemplate);
+	if (templateValidation !== true) {
+		throw new Error(
+			`config.json key outputTemplate is invalid: ${templateValidation}`,
+		);
+	}
+	if (!FILE_EXISTS_ACTIONS.includes(config.onFileExists as FileExistsAction)) {
+		throw new Error(
+			`config.json key onFileExists must be one of ${FILE_EXISTS_ACTIONS.join(', ')} (got ${config.onFileExists})`,
+		);
+	}
+	const retriesValidation = validateRetryBudgets(config.retries);
+	if (retriesValidation !== true) {
+		throw new Error(`config.json key retries is invalid: ${retriesValidation}`);
+	}
+	const proxiesValidation = validateProxies(config.proxies);
+	if (proxiesValidation !== true) {
+		throw new Error(`config.json key proxies is invalid: ${proxiesValidation}`);
+	}
+	const timingValidation = validateTiming(config.timing);
+	if (timingValidation !== true) {
+		throw new Error(`config.json key timing is invalid: ${timingValidation}`);
+	}
+	for (const key of ['maxBrowserlessDownloads', 'browserMaxJobs'] as const) {
+		if (!Number.isInteger(config[key]) || config[key] < 1) {
+			throw new Error(
+				`config.json key ${key} must be a positive integer (got ${config[key]})`,
+			);
+		}
+	}
+	return config;
 }
 
 export async function saveConfig(config: AppConfig): Promise<void> {
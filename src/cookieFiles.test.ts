@@ -0,0 +1,141 @@
+import { Database } from 'bun:sqlite';
+import { afterEach, describe, expect, test } from 'bun:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+	parseCookieFile,
+	parseNetscapeCookies,
+	readBrowserCookies,
+} from './cookieFiles';
+
+let dir: string | undefined;
+
+async function tempDir(): Promise<string> {
+	dir ??= await mkdtemp(join(tmpdir(), 'cookie-files-test-'));
+	return dir;
+}
+
+afterEach(async () => {
+	if (dir) {
+		await rm(dir, { recursive: true, force: true });
+		dir = undefined;
+	}
+});
+
+describe('parseNetscapeCookies', () => {
+	test('reads the fields of each line', () => {
+		const text = [
+			'# Netscape HTTP Cookie File',
+			'',
+			'.soundcloud.com\tTRUE\t/\tTRUE\t1900000000\toauth_token\tabc',
+			'#HttpOnly_accounts.spotify.com\tFALSE\t/\tTRUE\t0\tsp_dc\tdef',
+		].join('\n');
+
+		expect(parseNetscapeCookies(text, 'cookies.txt')).toEqual([
+			{
+				name: 'oauth_token',
+				value: 'abc',
+				domain: '.soundcloud.com',
+				path: '/',
+				httpOnly: false,
+				secure: true,
+				expirationDate: 1900000000,
+			},
+			{
+				name: 'sp_dc',
+				value: 'def',
+				domain: 'accounts.spotify.com',
+				path: '/',
+				httpOnly: true,
+				secure: true,
+			},
+		]);
+	});
+
+	test('reports malformed lines', () => {
+		expect(() =>
+			parseNetscapeCookies('# comment\nsoundcloud.com TRUE /', 'cookies.txt'),
+		).toThrow('cookies.txt line 2 is not a cookies.txt line');
+	});
+});
+
+describe('parseCookieFile', () => {
+	test('accepts the JSON export and cookies.txt', () => {
+		const cookie = { name: 'a', value: 'b', domain: '.soundcloud.com' };
+
+		expect(parseCookieFile(JSON.stringify([cookie]), 'a.json')).toEqual([
+			cookie,
+		]);
+		expect(
+			parseCookieFile('.soundcloud.com\tTRUE\t/\tFALSE\t0\ta\tb\n', 'a.json'),
+		).toMatchObject([cookie]);
+		expect(() => parseCookieFile('[', 'a.json')).toThrow();
+	});
+});
+
+describe('readBrowserCookies', () => {
+	test('reads a Firefox database', async () => {
+		const path = join(await tempDir(), 'cookies.sqlite');
+		const db = new Database(path);
+		db.run(
+			'CREATE TABLE moz_cookies (host TEXT, name TEXT, value TEXT, path TEXT, expiry INTEGER, isSecure INTEGER, isHttpOnly INTEGER, sameSite INTEGER)',
+		);
+		db.run(
+			"INSERT INTO moz_cookies VALUES ('.soundcloud.com', 'oauth_token', 'abc', '/', 1900000000000, 1, 0, 1), ('.example.com', 'other', 'x', '/', 1900000000, 0, 0, 0)",
+		);
+		db.close();
+
+		expect(await readBrowserCookies(path, ['soundcloud.com'])).toEqual([
+			{
+				name: 'oauth_token',
+				value: 'abc',
+				domain: '.soundcloud.com',
+				path: '/',
+				expirationDate: 1900000000,
+				secure: true,
+				httpOnly: false,
+				sameSite: 'lax',
+			},
+		]);
+	});
+
+	test('reads unencrypted Chromium cookies', async () => {
+		const path = join(await tempDir(), 'Cookies');
+		const db = new Database(path);
+		db.run(
+			'CREATE TABLE cookies (host_key TEXT, name TEXT, value TEXT, encrypted_value BLOB, path TEXT, expires_utc INTEGER, is_secure INTEGER, is_httponly INTEGER, samesite INTEGER)',
+		);
+		db.run(
+			"INSERT INTO cookies VALUES ('.spotify.com', 'sp_dc', 'abc', x'', '/', 13380000000000000, 1, 1, -1)",
+		);
+		db.close();
+
+		const [cookie] = await readBrowserCookies(path, ['spotify.com']);
+
+		expect(cookie).toMatchObject({
+			name: 'sp_dc',
+			value: 'abc',
+			domain: '.spotify.com',
+			httpOnly: true,
+			sameSite: 'unspecified',
+		});
+		expect(cookie?.expirationDate).toBe(13380000000 - 11644473600);
+	});
+
+	test('rejects encrypted Chromium cookies', async () => {
+		const path = join(await tempDir(), 'Cookies');
+		const db = new Database(path);
+		db.run(
+			'CREATE TABLE cookies (host_key TEXT, name TEXT, value TEXT, encrypted_value BLOB, path TEXT, expires_utc INTEGER, is_secure INTEGER, is_httponly INTEGER, samesite INTEGER)',
+		);
+		db.run(
+			"INSERT INTO cookies VALUES ('.spotify.com', 'sp_dc', '', x'763130', '/', 0, 1, 1, 0)",
+		);
+		db.close();
+
+		await expect(readBrowserCookies(path, ['spotify.com'])).rejects.toThrow(
+			'are encrypted',
+		);
+	});
+});
@@ -0,0 +1,299 @@
+import { Database } from 'bun:sqlite';
+import { copyFile, mkdtemp, rm, stat } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { basename, join } from 'node:path';
+import type { LocalCookieData } from './types';
+
+// Reading cookies in the formats browsers and their extensions export, all
+// normalised to the LocalCookieData format of the EditThisCookie export.
+
+export type CookieSite = 'soundcloud' | 'spotify' | 'hypeddit';
+
+// The file each site's cookies are read from, the domains they belong to and
+// the cookie that holds the login, whose expiry is the one of the session
+export const COOKIE_SITES: Record<
+	CookieSite,
+	{ file: string; domains: string[]; loginCookie?: string }
+> = {
+	soundcloud: {
+		file: 'soundcloud-cookies.json',
+		domains: ['soundcloud.com'],
+		loginCookie: 'oauth_token',
+	},
+	spotify: {
+		file: 'spotify-cookies.json',
+		domains: ['spotify.com'],
+		loginCookie: 'sp_dc',
+	},
+	hypeddit: { file: 'hypeddit-cookies.json', domains: ['hypeddit.com'] },
+};
+
+export function isCookieSite(value: string): value is CookieSite {
+	return value in COOKIE_SITES;
+}
+
+// Netscape/curl cookies.txt: marks cookies that scripts can't read
+const HTTP_ONLY_PREFIX = '#HttpOnly_';
+
+/**
+ * Parses a Netscape cookies.txt file, as written by curl, yt-dlp and the
+ * "Get cookies.txt" extensions
+ */
+export function parseNetscapeCookies(
+	text: string,
+	filename: string,
+): LocalCookieData[] {
+	const cookies: LocalCookieData[] = [];
+	for (const [index, rawLine] of text.split(/\r?\n/).entries()) {
+		let line = rawLine.trim();
+		let httpOnly = false;
+		if (line.startsWith(HTTP_ONLY_PREFIX)) {
+			line = line.slice(HTTP_ONLY_PREFIX.length);
+			httpOnly = true;
+		} else if (!line || line.startsWith('#')) {
+			continue;
+		}
+		const [domain, includeSubdomains, path, secure, expires, name, ...value] =
+			line.split('\t');
+		if (!domain || !name || value.length === 0) {
+			throw new Error(
+				`${filename} line ${index + 1} is not a cookies.txt line (expected 7 tab-separated fields)`,
+			);
+		}
+		const host = domain.replace(/^\./, '');
+		const cookie: LocalCookieData = {
+			name,
+			value: value.join('\t'),
+			domain: includeSubdomains === 'TRUE' ? `.${host}` : host,
+			path: path || '/',
+			httpOnly,
+			secure: secure === 'TRUE',
+		};
+		// 0 marks a session cookie
+		const expirationDate = Number(expires);
+		if (expirationDate > 0) {
+			cookie.expirationDate = expirationDate;
+		}
+		cookies.push(cookie);
+	}
+	return cookies;
+}
+
+/**
+ * Parses an exported cookie file: the EditThisCookie JSON export or a Netscape
+ * cookies.txt file
+ */
+export function parseCookieFile(
+	text: string,
+	filename: string,
+): LocalCookieData[] {
+	if (!text.trimStart().startsWith('[')) {
+		return parseNetscapeCookies(text, filename);
+	}
+	const cookies: unknown = JSON.parse(text);
+	if (!Array.isArray(cookies)) {
+		throw new Error(`${filename} must contain an array of cookies`);
+	}
+	return cookies;
+}
+
+export async function readCookieFile(
+	filename: string,
+): Promise<LocalCookieData[]> {
+	return parseCookieFile(await Bun.file(filename).text(), filename);
+}
+
+export function matchesDomains(
+	cookie: LocalCookieData,
+	domains: string[],
+): boolean {
+	const host = cookie.domain.replace(/^\./, '').toLowerCase();
+	return domains.some(
+		(domain) => host === domain || host.endsWith(`.${domain}`),
+	);
+}
+
+interface FirefoxCookieRow {
+	host: string;
+	name: string;
+	value: string;
+	path: string;
+	expiry: number;
+	isSecure: number;
+	isHttpOnly: number;
+	sameSite: number;
+}
+
+interface ChromiumCookieRow {
+	host_key: string;
+	name: string;
+	value: string;
+	encrypted: number;
+	path: string;
+	expires_utc: number;
+	is_secure: number;
+	is_httponly: number;
+	samesite: number;
+}
+
+// Firefox and Chromium store SameSite as 0 (None), 1 (Lax) and 2 (Strict)
+const SAME_SITE = ['no_restriction', 'lax', 'strict'];
+
+// seconds between 1601-01-01, the epoch of Chromium's timestamps, and 1970
+const CHROMIUM_EPOCH_OFFSET = 11_644_473_600;
+
+function readFirefoxCookies(db: Database): LocalCookieData[] {
+	return db
+		.query<FirefoxCookieRow, []>(
+			'SELECT host, name, value, path, expiry, isSecure, isHttpOnly, sameSite FROM moz_cookies',
+		)
+		.all()
+		.map((row) => ({
+			name: row.name,
+			value: row.value,
+			domain: row.host,
+			path: row.path || '/',
+			// newer Firefox versions store milliseconds
+			expirationDate: row.expiry > 1e11 ? row.expiry / 1000 : row.expiry,
+			secure: row.isSecure === 1,
+			httpOnly: row.isHttpOnly === 1,
+			sameSite: SAME_SITE[row.sameSite] ?? 'unspecified',
+		}));
+}
+
+function readChromiumCookies(
+	db: Database,
+	filename: string,
+	domains: string[],
+): LocalCookieData[] {
+	const rows = db
+		.query<ChromiumCookieRow, []>(
+			`SELECT host_key, name, value, length(encrypted_value) AS encrypted, path,
+				expires_utc, is_secure, is_httponly, samesite FROM cookies`,
+		)
+		.all();
+	const cookies: LocalCookieData[] = [];
+	let encrypted = 0;
+	for (const row of rows) {
+		const cookie: LocalCookieData = {
+			name: row.name,
+			value: row.value,
+			domain: row.host_key,
+			path: row.path || '/',
+			secure: row.is_secure === 1,
+			httpOnly: row.is_httponly === 1,
+			sameSite: SAME_SITE[row.samesite] ?? 'unspecified',
+		};
+		if (!matchesDomains(cookie, domains)) {
+			continue;
+		}
+		if (!row.value && row.encrypted > 0) {
+			encrypted++;
+			continue;
+		}
+		// 0 marks a session cookie
+		if (row.expires_utc > 0) {
+			cookie.expirationDate = row.expires_utc / 1e6 - CHROMIUM_EPOCH_OFFSET;
+		}
+		cookies.push(cookie);
+	}
+	if (encrypted && !cookies.length) {
+		throw new Error(
+			`The ${domains.join(', ')} cookies in ${filename} are encrypted. Only unencrypted Chromium profiles can be imported, export the cookies with an extension instead.`,
+		);
+	}
+	return cookies;
+}
+
+// Where the cookie database lives inside a profile directory
+const PROFILE_COOKIE_FILES = [
+	'cookies.sqlite',
+	join('Network', 'Cookies'),
+	'Cookies',
+];
+
+async function findCookieFile(path: string): Promise<string> {
+	if (!(await stat(path)).isDirectory()) {
+		return path;
+	}
+	for (const file of PROFILE_COOKIE_FILES) {
+		if (await Bun.file(join(path, file)).exists()) {
+			return join(path, file);
+		}
+	}
+	throw new Error(
+		`No cookie database found in ${path}, expected one of ${PROFILE_COOKIE_FILES.join(', ')}`,
+	);
+}
+
+async function isSqlite(path: string): Promise<boolean> {
+	const header = await Bun.file(path).slice(0, 16).text();
+	return header === 'SQLite format 3\0';
+}
+
+/**
+ * Reads the cookies of a browser profile database: Firefox's cookies.sqlite or
+ * the Cookies file of a Chromium profile. Works on a copy, as the browser keeps
+ * the database locked while it runs.
+ */
+export async function readBrowserCookies(
+	path: string,
+	domains: string[],
+): Promise<LocalCookieData[]> {
+	const copyDir = await mkdtemp(join(tmpdir(), 'cookie-import-'));
+	try {
+		const copy = join(copyDir, basename(path));
+		await copyFile(path, copy);
+		// changes that haven't been written back to the database yet
+		if (await Bun.file(`${path}-wal`).exists()) {
+			await copyFile(`${path}-wal`, `${copy}-wal`);
+		}
+		const db = new Database(copy);
+		try {
+			const tables = db
+				.query<{ name: string }, []>(
+					"SELECT name FROM sqlite_master WHERE type = 'table'",
+				)
+				.all()
+				.map((table) => table.name);
+			if (tables.includes('moz_cookies')) {
+				return readFirefoxCookies(db).filter((cookie) =>
+					matchesDomains(cookie, domains),
+				);
+			}
+			if (tables.includes('cookies')) {
+				return readChromiumCookies(db, path, domains);
+			}
+			throw new Error(`${path} is not a Firefox or Chromium cookie database`);
+		} finally {
+			db.close();
+		}
+	} finally {
+		await rm(copyDir, { recursive: true, force: true });
+	}
+}
+
+/**
+ * Reads the cookies of `site` from a browser profile (directory or cookie
+ * database) or an exported cookie file, and saves them to the site's cookie
+ * file. Returns the file and the number of cookies saved.
+ */
+export async function importCookies(
+	site: CookieSite,
+	path: string,
+): Promise<{ file: string; count: number }> {
+	const { file, domains } = COOKIE_SITES[site];
+	const source = await findCookieFile(path);
+	const cookies = (
+		(await isSqlite(source))
+			? await readBrowserCookies(source, domains)
+			: await readCookieFile(source)
+	).filter((cookie) => matchesDomains(cookie, domains));
+	if (!cookies.length) {
+		throw new Error(
+			`No ${domains.join(', ')} cookies found in ${source}, make sure you are logged in with that browser profile`,
+		);
+	}
+	await Bun.write(file, `${JSON.stringify(cookies, null, '\t')}\n`);
+	return { file, count: cookies.length };
+}
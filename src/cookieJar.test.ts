@@ -0,0 +1,132 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { CookieJar, parseSetCookie } from './cookieJar';
+
+const url = new URL('https://hypeddit.com/gate/download/ul');
+
+function responseSetting(...cookies: string[]): Response {
+	const headers = new Headers();
+	for (const cookie of cookies) {
+		headers.append('Set-Cookie', cookie);
+	}
+	return new Response(null, { headers });
+}
+
+describe('parseSetCookie', () => {
+	test('reads the attributes', () => {
+		expect(
+			parseSetCookie(
+				'session=abc; Domain=.hypeddit.com; Path=/gate; Secure; HttpOnly; SameSite=Lax; Max-Age=60',
+				url,
+				0,
+			),
+		).toEqual({
+			name: 'session',
+			value: 'abc',
+			domain: '.hypeddit.com',
+			path: '/gate',
+			expirationDate: 60,
+			secure: true,
+			httpOnly: true,
+			sameSite: 'Lax',
+		});
+	});
+
+	test('defaults to the request host and directory', () => {
+		expect(parseSetCookie('session=abc', url)).toEqual({
+			name: 'session',
+			value: 'abc',
+			domain: 'hypeddit.com',
+			path: '/gate/download',
+		});
+	});
+
+	test('prefers Max-Age over Expires', () => {
+		expect(
+			parseSetCookie(
+				'session=abc; Expires=Wed, 21 Oct 2026 07:28:00 GMT; Max-Age=10',
+				url,
+				0,
+			)?.expirationDate,
+		).toBe(10);
+	});
+
+	test('rejects cookies for other domains', () => {
+		expect(parseSetCookie('session=abc; Domain=spotify.com', url)).toBeNull();
+		expect(parseSetCookie('=abc', url)).toBeNull();
+	});
+});
+
+describe('CookieJar', () => {
+	let dir: string | undefined;
+
+	afterEach(async () => {
+		if (dir) {
+			await rm(dir, { recursive: true, force: true });
+			dir = undefined;
+		}
+	});
+
+	test('sends cookies only to matching domains and paths', () => {
+		const jar = new CookieJar();
+		jar.import([
+			{ name: 'all', value: '1', domain: '.hypeddit.com' },
+			{ name: 'host', value: '2', domain: 'hypeddit.com' },
+			{ name: 'gate', value: '3', domain: 'hypeddit.com', path: '/gate' },
+			{ name: 'secure', value: '4', domain: 'hypeddit.com', secure: true },
+		]);
+
+		expect(jar.header('https://hypeddit.com/gate/ge')).toBe(
+			'gate=3; all=1; host=2; secure=4',
+		);
+		expect(jar.header('http://hypeddit.com/gateway')).toBe('all=1; host=2');
+		expect(jar.header('https://www.hypeddit.com/')).toBe('all=1');
+		expect(jar.header('https://nothypeddit.com/')).toBe('');
+	});
+
+	test('replaces and deletes cookies from responses', () => {
+		const jar = new CookieJar();
+		jar.store(responseSetting('session=old; Path=/', 'other=1; Path=/'), url);
+		jar.store(
+			responseSetting('session=new; Path=/', 'other=; Path=/; Max-Age=0'),
+			url,
+		);
+
+		expect(jar.header(url)).toBe('session=new');
+	});
+
+	test('drops expired cookies', () => {
+		const jar = new CookieJar();
+		jar.import([
+			{
+				name: 'expired',
+				value: '1',
+				domain: 'hypeddit.com',
+				expirationDate: Date.now() / 1000 - 1,
+			},
+		]);
+
+		expect(jar.export()).toEqual([]);
+	});
+
+	test('saves and loads the exported cookie format', async () => {
+		dir = await mkdtemp(join(tmpdir(), 'cookie-jar-test-'));
+		const path = join(dir, 'cookies.json');
+		const jar = await CookieJar.load(path);
+		jar.store(responseSetting('session=abc; Path=/; HttpOnly'), url);
+		await jar.save();
+
+		expect(await Bun.file(path).json()).toEqual([
+			{
+				name: 'session',
+				value: 'abc',
+				domain: 'hypeddit.com',
+				path: '/',
+				httpOnly: true,
+			},
+		]);
+		expect((await CookieJar.load(path)).header(url)).toBe('session=abc');
+	});
+});
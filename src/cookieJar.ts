@@ -0,0 +1,221 @@
+import { readCookieFile } from './cookieFiles';
+import type { LocalCookieData } from './types';
+
+// Cookie store for the browserless requests. Cookies are kept in the same
+// LocalCookieData format as the exported browser cookies: a domain with a
+// leading dot matches subdomains too, one without only that exact host.
+
+function cookieKey(cookie: LocalCookieData): string {
+	return `${cookie.name}\t${cookie.domain}\t${cookie.path ?? '/'}`;
+}
+
+function isExpired(cookie: LocalCookieData, now = Date.now()): boolean {
+	return (
+		cookie.expirationDate !== undefined &&
+		cookie.expirationDate > 0 &&
+		cookie.expirationDate * 1000 <= now
+	);
+}
+
+function domainMatches(cookie: LocalCookieData, hostname: string): boolean {
+	const domain = cookie.domain.toLowerCase();
+	if (!domain.startsWith('.')) {
+		return hostname === domain;
+	}
+	return hostname === domain.slice(1) || hostname.endsWith(domain);
+}
+
+// RFC 6265 5.1.4: `/gate` matches `/gate` and `/gate/ul`, but not `/gateway`
+function pathMatches(cookiePath: string, requestPath: string): boolean {
+	return (
+		requestPath === cookiePath ||
+		(requestPath.startsWith(cookiePath) &&
+			(cookiePath.endsWith('/') || requestPath[cookiePath.length] === '/'))
+	);
+}
+
+// directory of the request path, used when Set-Cookie has no Path
+function defaultPath(url: URL): string {
+	const end = url.pathname.lastIndexOf('/');
+	return end > 0 ? url.pathname.slice(0, end) : '/';
+}
+
+/**
+ * Parses a Set-Cookie header received from `url`. Returns null for cookies a
+ * browser would reject, e.g. ones for a domain the response didn't come from.
+ */
+export function parseSetCookie(
+	header: string,
+	url: URL,
+	now = Date.now(),
+): LocalCookieData | null {
+	const [pair = '', ...attributes] = header.split(';');
+	const eq = pair.indexOf('=');
+	if (eq <= 0) {
+		return null;
+	}
+	const cookie: LocalCookieData = {
+		name: pair.slice(0, eq).trim(),
+		value: pair.slice(eq + 1).trim(),
+		domain: url.hostname,
+		path: defaultPath(url),
+	};
+
+	let maxAge: number | undefined;
+	for (const attribute of attributes) {
+		const separator = attribute.indexOf('=');
+		const key = (separator === -1 ? attribute : attribute.slice(0, separator))
+			.trim()
+			.toLowerCase();
+		const value = separator === -1 ? '' : attribute.slice(separator + 1).trim();
+		switch (key) {
+			case 'domain': {
+				const domain = value.replace(/^\./, '').toLowerCase();
+				if (!domain) {
+					break;
+				}
+				if (!domainMatches({ ...cookie, domain: `.${domain}` }, url.hostname)) {
+					return null;
+				}
+				cookie.domain = `.${domain}`;
+				break;
+			}
+			case 'path':
+				if (value.startsWith('/')) {
+					cookie.path = value;
+				}
+				break;
+			case 'max-age':
+				if (/^-?\d+$/.test(value)) {
+					maxAge = Number(value);
+				}
+				break;
+			case 'expires': {
+				const date = Date.parse(value);
+				if (!Number.isNaN(date)) {
+					cookie.expirationDate = date / 1000;
+				}
+				break;
+			}
+			case 'secure':
+				cookie.secure = true;
+				break;
+			case 'httponly':
+				cookie.httpOnly = true;
+				break;
+			case 'samesite':
+				cookie.sameSite = value;
+				break;
+		}
+	}
+	// Max-Age wins over Expires; zero or less deletes the cookie
+	if (maxAge !== undefined) {
+		cookie.expirationDate = (now + maxAge * 1000) / 1000;
+	}
+	return cookie;
+}
+
+export class CookieJar {
+	private readonly cookies = new Map<string, LocalCookieData>();
+	// file the jar is saved to, undefined for a jar that only lives in memory
+	private readonly path: string | undefined;
+	// saves are chained so parallel jobs sharing a jar don't interleave writes
+	private saving: Promise<void> = Promise.resolve();
+
+	constructor(path?: string) {
+		this.path = path;
+	}
+
+	/**
+	 * Loads the jar saved at `path`, or an empty one if there is no such file yet
+	 */
+	static async load(path: string): Promise<CookieJar> {
+		const jar = new CookieJar(path);
+		if (await Bun.file(path).exists()) {
+			jar.import(await readCookieFile(path));
+		}
+		return jar;
+	}
+
+	/**
+	 * Adds cookies in the exported browser format, replacing cookies with the
+	 * same name, domain and path. Expired cookies remove the stored one.
+	 */
+	import(cookies: LocalCookieData[]): void {
+		for (const cookie of cookies) {
+			const stored = { ...cookie, path: cookie.path || '/' };
+			const key = cookieKey(stored);
+			if (isExpired(stored)) {
+				this.cookies.delete(key);
+			} else {
+				this.cookies.set(key, stored);
+			}
+		}
+	}
+
+	/**
+	 * Cookies that haven't expired yet, in the exported browser format
+	 */
+	export(): LocalCookieData[] {
+		const now = Date.now();
+		return Array.from(this.cookies.values()).filter(
+			(cookie) => !isExpired(cookie, now),
+		);
+	}
+
+	// Stores the cookies set by a response to a request for `url`
+	store(response: Response, url: string | URL): void {
+		const requestUrl = new URL(url);
+		const cookies = (response.headers.getSetCookie?.() ?? [])
+			.map((header) => parseSetCookie(header, requestUrl))
+			.filter((cookie) => cookie !== null);
+		this.import(cookies);
+	}
+
+	// Value of the Cookie header for a request to `url`, longer paths first
+	header(url: string | URL): string {
+		const requestUrl = new URL(url);
+		const hostname = requestUrl.hostname.toLowerCase();
+		return this.export()
+			.filter(
+				(cookie) =>
+					domainMatches(cookie, hostname) &&
+					pathMatches(cookie.path ?? '/', requestUrl.pathname) &&
+					(!cookie.secure || requestUrl.protocol === 'https:'),
+			)
+			.sort((a, b) => (b.path ?? '/').length - (a.path ?? '/').length)
+			.map((cookie) => `${cookie.name}=${cookie.value}`)
+			.join('; ');
+	}
+
+	async save(): Promise<void> {
+		const path = this.path;
+		if (!path) {
+			return;
+		}
+		const write = this.saving
+			.catch(() => {})
+			.then(async () => {
+				await Bun.write(path, `${JSON.stringify(this.export(), null, '\t')}\n`);
+			});
+		this.saving = write;
+		await write;
+	}
+}
+
+const openJars = new Map<string, Promise<CookieJar>>();
+
+/**
+ * Opens the jar saved at `path`. Downloaders running in the same process share
+ * one jar per file, so parallel jobs don't overwrite each other's cookies.
+ */
+export function openCookieJar(path: string): Promise<CookieJar> {
+	let jar = openJars.get(path);
+	if (!jar) {
+		jar = CookieJar.load(path);
+		// a broken file shouldn't stick, the next job reads it again
+		jar.catch(() => openJars.delete(path));
+		openJars.set(path, jar);
+	}
+	return jar;
+}
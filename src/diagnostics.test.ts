@@ -0,0 +1,149 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { mkdir, mkdtemp, readdir, rm, utimes } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+	BrowserDiagnostics,
+	hasDiagnostics,
+	readDiagnostics,
+	redactPostData,
+	redactUrl,
+	removeOldDiagnostics,
+} from './diagnostics';
+
+let dir: string | undefined;
+
+async function tempDir(): Promise<string> {
+	dir ??= await mkdtemp(join(tmpdir(), 'diagnostics-test-'));
+	return dir;
+}
+
+afterEach(async () => {
+	if (dir) {
+		await rm(dir, { recursive: true, force: true });
+		dir = undefined;
+	}
+});
+
+describe('BrowserDiagnostics', () => {
+	test('saves the state of the gate flow', async () => {
+		const directory = join(await tempDir(), 'job');
+		const diagnostics = new BrowserDiagnostics();
+		diagnostics.gates = ['email', 'sc|sp'];
+		diagnostics.currentGate = 'sp';
+		diagnostics.step = 'Handling Spotify gate...';
+		diagnostics.log('[error] Uncaught TypeError');
+
+		await diagnostics.save(directory, null, new Error('popup not found'));
+
+		expect(await hasDiagnostics(directory)).toBe(true);
+		expect(await Bun.file(join(directory, 'state.json')).json()).toMatchObject({
+			url: null,
+			gates: ['email', 'sc|sp'],
+			currentGate: 'sp',
+			step: 'Handling Spotify gate...',
+			error: 'popup not found',
+		});
+		expect(await Bun.file(join(directory, 'console.log')).text()).toContain(
+			'[error] Uncaught TypeError',
+		);
+		expect(await Bun.file(join(directory, 'network.har')).json()).toMatchObject(
+			{
+				log: {
+					version: '1.2',
+					creator: { version: '1.0.0' },
+					entries: [],
+				},
+			},
+		);
+	});
+
+	test('replaces the bundle of a previous attempt', async () => {
+		const directory = join(await tempDir(), 'job');
+		await mkdir(directory, { recursive: true });
+		await Bun.write(join(directory, 'screenshot.png'), 'old');
+
+		await new BrowserDiagnostics().save(directory, null, 'failed');
+
+		expect((await readdir(directory)).sort()).toEqual([
+			'console.log',
+			'network.har',
+			'state.json',
+		]);
+	});
+});
+
+describe('readDiagnostics', () => {
+	test('returns the files for an archive', async () => {
+		const directory = join(await tempDir(), 'job');
+		await new BrowserDiagnostics().save(directory, null, 'failed');
+
+		const files = await readDiagnostics(directory);
+		const archive = new Bun.Archive(files ?? {}, { compress: 'gzip' });
+
+		expect(Array.from((await archive.files()).keys()).sort()).toEqual([
+			'console.log',
+			'network.har',
+			'state.json',
+		]);
+	});
+
+	test('returns null without a complete bundle', async () => {
+		const directory = join(await tempDir(), 'job');
+		await mkdir(directory, { recursive: true });
+
+		expect(await readDiagnostics(directory)).toBeNull();
+		expect(await readDiagnostics(join(directory, 'missing'))).toBeNull();
+	});
+});
+
+describe('removeOldDiagnostics', () => {
+	test('removes bundles older than the maximum age', async () => {
+		const root = await tempDir();
+		await mkdir(join(root, 'old'));
+		await mkdir(join(root, 'new'));
+		const dayAgo = new Date(Date.now() - 25 * 60 * 60 * 1000);
+		await utimes(join(root, 'old'), dayAgo, dayAgo);
+
+		expect(await removeOldDiagnostics(24 * 60 * 60 * 1000, root)).toBe(1);
+		expect(await readdir(root)).toEqual(['new']);
+	});
+});
+
+describe('redactPostData', () => {
+	test.each([
+		[
+			'application/x-www-form-urlencoded; charset=UTF-8',
+			'name=Jane+Doe&email=jane%40example.com&gate=email',
+			'name=[redacted]&email=[redacted]&gate=[redacted]',
+		],
+		['application/json', '{"email":"jane@example.com"}', '[redacted]'],
+		['', 'email=jane@example.com', '[redacted]'],
+	])('%p', (mimeType, text, expected) => {
+		expect(redactPostData(mimeType, text)).toBe(expected);
+	});
+});
+
+describe('redactUrl', () => {
+	test.each([
+		[
+			'https://hypeddit.com/gate/callback?code=abc123&state=xyz&step=2',
+			'https://hypeddit.com/gate/callback?code=[redacted]&state=[redacted]&step=2',
+		],
+		[
+			'https://api-v2.soundcloud.com/me?client_id=id&oauth_token=secret',
+			'https://api-v2.soundcloud.com/me?client_id=[redacted]&oauth_token=[redacted]',
+		],
+		[
+			'https://example.com/callback#access_token=secret&token_type=Bearer',
+			'https://example.com/callback#access_token=[redacted]&token_type=Bearer',
+		],
+		[
+			'https://hypeddit.com/artist/track?ref=a%20b+c',
+			'https://hypeddit.com/artist/track?ref=a%20b+c',
+		],
+		['data:image/png;base64,AAAA', 'data:image/png;base64,AAAA'],
+	])('%p', (url, expected) => {
+		expect(redactUrl(url)).toBe(expected);
+	});
+});
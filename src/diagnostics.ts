@@ -0,0 +1,351 @@
+import { mkdir, readdir, rm, stat } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { HTTPRequest, Page } from 'puppeteer';
+import packageJson from '../package.json' with { type: 'json' };
+
+// Everything needed to find out why a browser run failed, saved to one folder
+// per run: a full-page screenshot, the page HTML, the console output, a HAR
+// network log and the state of the gate flow.
+
+export const DIAGNOSTICS_DIR = './diagnostics';
+
+const MAX_CONSOLE_LINES = 2000;
+const MAX_NETWORK_ENTRIES = 1000;
+
+// Values that would leak the session when the bundle is shared in an issue
+const REDACTED_HEADERS = new Set([
+	'cookie',
+	'set-cookie',
+	'authorization',
+	'proxy-authorization',
+]);
+
+// Query parameters of the OAuth redirects and signed download URLs that carry
+// the same kind of secrets
+const REDACTED_QUERY_PARAMS = new Set([
+	'code',
+	'state',
+	'oauth_token',
+	'access_token',
+	'refresh_token',
+	'id_token',
+	'token',
+	'client_id',
+	'client_secret',
+	'email',
+	'signature',
+	'x-amz-signature',
+	'x-amz-credential',
+	'x-amz-security-token',
+]);
+
+interface HarHeader {
+	name: string;
+	value: string;
+}
+
+interface HarEntry {
+	startedDateTime: string;
+	time: number;
+	request: {
+		method: string;
+		url: string;
+		httpVersion: string;
+		headers: HarHeader[];
+		queryString: HarHeader[];
+		cookies: [];
+		headersSize: -1;
+		bodySize: number;
+		postData?: { mimeType: string; text: string };
+	};
+	response: {
+		status: number;
+		statusText: string;
+		httpVersion: string;
+		headers: HarHeader[];
+		cookies: [];
+		content: { size: number; mimeType: string };
+		redirectURL: string;
+		headersSize: -1;
+		bodySize: -1;
+	};
+	cache: Record<string, never>;
+	timings: { send: number; wait: number; receive: number };
+	_resourceType: string;
+	_error?: string;
+}
+
+export interface DiagnosticsState {
+	url: string | null;
+	// raw gate names found on the page, e.g. `email` or `sc|sp`
+	gates: string[];
+	currentGate: string | null;
+	// last progress message, e.g. "Handling Spotify gate..."
+	step: string | null;
+	error: string;
+	stack?: string;
+	savedAt: string;
+}
+
+// Form posts carry the name and email of the gate form, so only the field
+// names are kept. Other bodies are dropped entirely.
+export function redactPostData(mimeType: string, text: string): string {
+	if (!mimeType.startsWith('application/x-www-form-urlencoded')) {
+		return '[redacted]';
+	}
+	return Array.from(
+		new URLSearchParams(text).keys(),
+		(name) => `${encodeURIComponent(name)}=[redacted]`,
+	).join('&');
+}
+
+function redactParams(params: string): string {
+	const entries = Array.from(new URLSearchParams(params));
+	if (
+		!entries.some(([name]) => REDACTED_QUERY_PARAMS.has(name.toLowerCase()))
+	) {
+		return params;
+	}
+	return entries
+		.map(
+			([name, value]) =>
+				`${encodeURIComponent(name)}=${REDACTED_QUERY_PARAMS.has(name.toLowerCase()) ? '[redacted]' : encodeURIComponent(value)}`,
+		)
+		.join('&');
+}
+
+// Redacts secret query parameters, and those of a fragment like
+// `#access_token=...` that implicit OAuth flows use
+export function redactUrl(value: string): string {
+	let url: URL;
+	try {
+		url = new URL(value);
+	} catch {
+		return value;
+	}
+	const search = url.search.slice(1);
+	const hash = url.hash.slice(1);
+	const redactedSearch = redactParams(search);
+	const redactedHash = hash.includes('=') ? redactParams(hash) : hash;
+	if (redactedSearch === search && redactedHash === hash) {
+		return value;
+	}
+	url.search = redactedSearch;
+	url.hash = redactedHash;
+	return url.href;
+}
+
+function toHarHeaders(headers: Record<string, string>): HarHeader[] {
+	return Object.entries(headers).map(([name, value]) => ({
+		name,
+		value: REDACTED_HEADERS.has(name.toLowerCase()) ? '[redacted]' : value,
+	}));
+}
+
+export function getJobDiagnosticsPath(jobId: string): string {
+	return join(DIAGNOSTICS_DIR, jobId);
+}
+
+// Folder for a run without a job, e.g. from the CLI
+export function getRunDiagnosticsPath(date = new Date()): string {
+	return join(DIAGNOSTICS_DIR, date.toISOString().replace(/[:.]/g, '-'));
+}
+
+export class BrowserDiagnostics {
+	private readonly consoleLines: string[] = [];
+	private readonly entries: HarEntry[] = [];
+	private readonly startTimes = new WeakMap<HTTPRequest, number>();
+	private readonly attachedPages = new WeakSet<Page>();
+	gates: string[] = [];
+	currentGate: string | null = null;
+	step: string | null = null;
+
+	// Records console output and requests of a page, e.g. the gate or a popup
+	attach(page: Page): void {
+		if (this.attachedPages.has(page)) {
+			return;
+		}
+		this.attachedPages.add(page);
+		page.on('console', (message) => {
+			this.log(`[${message.type()}] ${message.text()}`, page);
+		});
+		page.on('pageerror', (error) => {
+			this.log(
+				`[pageerror] ${error instanceof Error ? error.message : String(error)}`,
+				page,
+			);
+		});
+		page.on('request', (request) => {
+			this.startTimes.set(request, Date.now());
+		});
+		page.on('requestfinished', (request) => this.record(request));
+		page.on('requestfailed', (request) => this.record(request));
+	}
+
+	log(line: string, page?: Page): void {
+		const source = page ? ` ${redactUrl(page.url())}` : '';
+		this.consoleLines.push(`${new Date().toISOString()}${source} ${line}`);
+		if (this.consoleLines.length > MAX_CONSOLE_LINES) {
+			this.consoleLines.shift();
+		}
+	}
+
+	private record(request: HTTPRequest): void {
+		const startedAt = this.startTimes.get(request) ?? Date.now();
+		const response = request.response();
+		const responseHeaders = response?.headers() ?? {};
+		const href = redactUrl(request.url());
+		const url = new URL(href);
+		const postData = request.postData();
+		const mimeType = request.headers()['content-type'] ?? '';
+		const time = Date.now() - startedAt;
+
+		this.entries.push({
+			startedDateTime: new Date(startedAt).toISOString(),
+			time,
+			request: {
+				method: request.method(),
+				url: href,
+				httpVersion: 'HTTP/1.1',
+				headers: toHarHeaders(request.headers()),
+				queryString: Array.from(url.searchParams, ([name, value]) => ({
+					name,
+					value,
+				})),
+				cookies: [],
+				headersSize: -1,
+				bodySize: postData?.length ?? 0,
+				...(postData !== undefined && {
+					postData: {
+						mimeType,
+						text: redactPostData(mimeType, postData),
+					},
+				}),
+			},
+			response: {
+				status: response?.status() ?? 0,
+				statusText: response?.statusText() ?? '',
+				httpVersion: 'HTTP/1.1',
+				headers: toHarHeaders(responseHeaders),
+				cookies: [],
+				content: {
+					size: Number(responseHeaders['content-length'] ?? -1),
+					mimeType: responseHeaders['content-type'] ?? '',
+				},
+				redirectURL: redactUrl(responseHeaders.location ?? ''),
+				headersSize: -1,
+				bodySize: -1,
+			},
+			cache: {},
+			timings: { send: 0, wait: time, receive: 0 },
+			_resourceType: request.resourceType(),
+			...(request.failure() && { _error: request.failure()?.errorText }),
+		});
+		if (this.entries.length > MAX_NETWORK_ENTRIES) {
+			this.entries.shift();
+		}
+	}
+
+	/**
+	 * Writes the bundle to `directory`. The page may be unusable after the
+	 * error, so a failed screenshot or snapshot doesn't stop the other files.
+	 */
+	async save(directory: string, page: Page | null, error: unknown) {
+		// a retried job replaces the bundle of its previous attempt
+		await rm(directory, { recursive: true, force: true });
+		await mkdir(directory, { recursive: true });
+
+		if (page && !page.isClosed()) {
+			try {
+				const screenshot = await page.screenshot({ fullPage: true });
+				await Bun.write(join(directory, 'screenshot.png'), screenshot);
+			} catch (screenshotError) {
+				this.log(`[diagnostics] screenshot failed: ${screenshotError}`);
+			}
+			try {
+				await Bun.write(join(directory, 'page.html'), await page.content());
+			} catch (contentError) {
+				this.log(`[diagnostics] page HTML failed: ${contentError}`);
+			}
+		}
+
+		await Bun.write(
+			join(directory, 'console.log'),
+			`${this.consoleLines.join('\n')}\n`,
+		);
+		await Bun.write(
+			join(directory, 'network.har'),
+			JSON.stringify(
+				{
+					log: {
+						version: '1.2',
+						creator: {
+							name: packageJson.name,
+							version: packageJson.version,
+						},
+						entries: this.entries,
+					},
+				},
+				null,
+				2,
+			),
+		);
+		// written last, so it marks a complete bundle
+		const state: DiagnosticsState = {
+			url: page && !page.isClosed() ? redactUrl(page.url()) : null,
+			gates: this.gates,
+			currentGate: this.currentGate,
+			step: this.step,
+			error: error instanceof Error ? error.message : String(error),
+			stack: error instanceof Error ? error.stack : undefined,
+			savedAt: new Date().toISOString(),
+		};
+		await Bun.write(
+			join(directory, 'state.json'),
+			JSON.stringify(state, null, 2),
+		);
+	}
+}
+
+export async function hasDiagnostics(directory: string): Promise<boolean> {
+	return await Bun.file(join(directory, 'state.json')).exists();
+}
+
+/**
+ * Files of a saved bundle by name, ready for Bun.Archive. Null if the run
+ * didn't save one.
+ */
+export async function readDiagnostics(
+	directory: string,
+): Promise<Record<string, Blob> | null> {
+	if (!(await hasDiagnostics(directory))) {
+		return null;
+	}
+	const names = await readdir(directory);
+	return Object.fromEntries(
+		names.map((name) => [name, Bun.file(join(directory, name))]),
+	);
+}
+
+// Removes bundles older than `maxAgeMs`, like the finished jobs they belong to
+export async function removeOldDiagnostics(
+	maxAgeMs: number,
+	directory = DIAGNOSTICS_DIR,
+): Promise<number> {
+	let names: string[];
+	try {
+		names = await readdir(directory);
+	} catch {
+		return 0;
+	}
+	const cutoff = Date.now() - maxAgeMs;
+	let removed = 0;
+	for (const name of names) {
+		const path = join(directory, name);
+		if ((await stat(path)).mtimeMs < cutoff) {
+			await rm(path, { recursive: true, force: true });
+			removed++;
+		}
+	}
+	return removed;
+}
@@ -0,0 +1,114 @@
+import { describe, expect, test } from 'bun:test';
+import { DownloadQueue } from './downloadQueue';
+
+// A task that only finishes when the test says so
+function deferredTask<T>(value: T) {
+	let finish: () => void = () => {};
+	const done = new Promise<void>((resolve) => {
+		finish = resolve;
+	});
+	return {
+		task: async () => {
+			await done;
+			return value;
+		},
+		finish,
+	};
+}
+
+describe('DownloadQueue', () => {
+	test('runs at most `concurrency` tasks at a time', async () => {
+		const queue = new DownloadQueue(2);
+		let running = 0;
+		let maxRunning = 0;
+		const task = async () => {
+			running++;
+			maxRunning = Math.max(maxRunning, running);
+			await Bun.sleep(5);
+			running--;
+		};
+
+		await Promise.all(Array.from({ length: 5 }, () => queue.run(task)));
+
+		expect(maxRunning).toBe(2);
+		expect(queue.pending).toBe(0);
+	});
+
+	test('starts waiting tasks in FIFO order', async () => {
+		const queue = new DownloadQueue(1);
+		const started: number[] = [];
+		const first = deferredTask(0);
+
+		const runs = [
+			queue.run(first.task),
+			...[1, 2, 3].map((id) =>
+				queue.run(async () => {
+					started.push(id);
+				}),
+			),
+		];
+		expect(queue.pending).toBe(3);
+		first.finish();
+		await Promise.all(runs);
+
+		expect(started).toEqual([1, 2, 3]);
+	});
+
+	test('reports the queue position while waiting', async () => {
+		const queue = new DownloadQueue(1);
+		const first = deferredTask('first');
+		const second = deferredTask('second');
+		const positions: Record<string, number[]> = { second: [], third: [] };
+
+		const runs = [
+			queue.run(first.task),
+			queue.run(second.task, {
+				onPosition: (position) => positions.second?.push(position),
+			}),
+			queue.run(async () => 'third', {
+				onPosition: (position) => positions.third?.push(position),
+			}),
+		];
+		first.finish();
+		await Bun.sleep(0);
+		second.finish();
+
+		expect(await Promise.all(runs)).toEqual(['first', 'second', 'third']);
+		expect(positions).toEqual({ second: [1], third: [2, 1] });
+	});
+
+	test('removes an aborted task from the queue', async () => {
+		const queue = new DownloadQueue(1);
+		const first = deferredTask('first');
+		const controller = new AbortController();
+		const thirdPositions: number[] = [];
+		let abortedRan = false;
+
+		const running = queue.run(first.task);
+		const aborted = queue.run(
+			async () => {
+				abortedRan = true;
+			},
+			{ signal: controller.signal },
+		);
+		const third = queue.run(async () => 'third', {
+			onPosition: (position) => thirdPositions.push(position),
+		});
+
+		controller.abort(new Error('Job cancelled'));
+		await expect(aborted).rejects.toThrow('Job cancelled');
+		expect(queue.pending).toBe(1);
+		expect(thirdPositions).toEqual([2, 1]);
+
+		first.finish();
+		expect(await running).toBe('first');
+		expect(await third).toBe('third');
+		expect(abortedRan).toBe(false);
+	});
+
+	test('rejects an invalid concurrency', () => {
+		expect(() => new DownloadQueue(0)).toThrow(
+			'Queue concurrency must be a positive integer (got 0)',
+		);
+	});
+});
@@ -0,0 +1,100 @@
+type PositionListener = (position: number) => void;
+
+interface Waiter {
+	start: () => void;
+	onPosition: PositionListener;
+}
+
+interface RunOptions {
+	onPosition?: PositionListener;
+	// Leaves the queue (rejecting with the abort reason) if aborted while waiting.
+	signal?: AbortSignal;
+}
+
+/**
+ * FIFO queue that runs at most `concurrency` tasks at a time
+ */
+export class DownloadQueue {
+	private readonly concurrency: number;
+	private running = 0;
+	private waiting: Waiter[] = [];
+
+	constructor(concurrency: number) {
+		if (!Number.isInteger(concurrency) || concurrency < 1) {
+			throw new Error(
+				`Queue concurrency must be a positive integer (got ${concurrency})`,
+			);
+		}
+		this.concurrency = concurrency;
+	}
+
+	/**
+	 * Number of tasks waiting for a free slot
+	 */
+	get pending(): number {
+		return this.waiting.length;
+	}
+
+	/**
+	 * Runs the task as soon as a slot is free. While waiting, `onPosition` is
+	 * called with the 1-based queue position every time it changes.
+	 */
+	async run<T>(task: () => Promise<T>, options: RunOptions = {}): Promise<T> {
+		const { onPosition, signal } = options;
+		signal?.throwIfAborted();
+
+		if (this.running < this.concurrency) {
+			this.running++;
+		} else {
+			await new Promise<void>((resolve, reject) => {
+				const waiter: Waiter = {
+					start: () => {
+						signal?.removeEventListener('abort', onAbort);
+						resolve();
+					},
+					onPosition: onPosition ?? (() => {}),
+				};
+				const onAbort = () => {
+					this.waiting = this.waiting.filter((entry) => entry !== waiter);
+					this.notifyPositions();
+					reject(signal?.reason);
+				};
+				signal?.addEventListener('abort', onAbort, { once: true });
+				this.waiting.push(waiter);
+				onPosition?.(this.waiting.length);
+			});
+		}
+
+		try {
+			return await task();
+		} finally {
+			this.release();
+		}
+	}
+
+	/**
+	 * Hands the slot of a finished task to the next waiter
+	 */
+	private release(): void {
+		const next = this.waiting.shift();
+		if (!next) {
+			this.running--;
+			return;
+		}
+		next.start();
+		this.notifyPositions();
+	}
+
+	/**
+	 * Reports the current position to every waiter
+	 */
+	private notifyPositions(): void {
+		for (const [index, waiter] of this.waiting.entries()) {
+			try {
+				waiter.onPosition(index + 1);
+			} catch (e) {
+				console.error('Error in queue position listener:', e);
+			}
+		}
+	}
+}
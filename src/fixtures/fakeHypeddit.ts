@@ -0,0 +1,222 @@
+import { join } from 'node:path';
+
+// Local stand-ins for hypeddit.com and accounts.spotify.com serving the
+// recorded pages next to this file, so the browserless flow can be tested
+// without network access.
+
+export interface FakeHypedditRequest {
+	method: string;
+	path: string;
+	headers: Headers;
+	form: URLSearchParams;
+}
+
+export interface FakeHypedditOptions {
+	// fixture served as the gate page
+	gate?: string;
+	// answer of /gate/download/ul
+	grantDownload?: boolean;
+	file?: Uint8Array<ArrayBuffer>;
+	// content-disposition of the file, null to only name it in the URL
+	contentDisposition?: string | null;
+	// the connection of the first file response drops after this many bytes
+	dropAfter?: number;
+	supportsRange?: boolean;
+	// whether Hypeddit was authorized on the fake Spotify account before
+	spotifyConsent?: boolean;
+}
+
+export interface FakeHypeddit {
+	origin: string;
+	gateUrl: string;
+	smartLinkUrl: string;
+	removedUrl: string;
+	spotifyOrigin: string;
+	// the Spotify callback was reached with a valid code
+	spotifyAuthorized(): boolean;
+	file: Uint8Array<ArrayBuffer>;
+	requests: FakeHypedditRequest[];
+	// requests to the given path, e.g. `/gate/ge`
+	requestsTo(path: string): FakeHypedditRequest[];
+	stop(): void;
+}
+
+const FIXTURES_DIR = join(import.meta.dir, 'hypeddit');
+
+export const FIXTURE_FILENAME = 'Artist - Track.wav';
+
+// value of the `sp_dc` cookie the fake Spotify accepts as logged in
+export const SPOTIFY_SESSION = 'spotify-session-fixture';
+
+async function readFixture(name: string, origin: string): Promise<string> {
+	const html = await Bun.file(join(FIXTURES_DIR, name)).text();
+	return html.replaceAll('{{origin}}', origin);
+}
+
+function htmlResponse(html: string, status = 200): Response {
+	return new Response(html, {
+		status,
+		headers: {
+			'Content-Type': 'text/html; charset=UTF-8',
+			'Set-Cookie': 'hypeddit_session=session-fixture; path=/; HttpOnly',
+		},
+	});
+}
+
+// Body that resets the connection after `length` bytes. Bun logs the error on
+// the server side, the client sees ECONNRESET.
+function droppedBody(
+	bytes: Uint8Array<ArrayBuffer>,
+	length: number,
+): ReadableStream {
+	return new ReadableStream({
+		async start(controller) {
+			controller.enqueue(bytes.slice(0, length));
+			// let the first bytes reach the client before the reset
+			await Bun.sleep(20);
+			controller.error(new Error('fake connection reset'));
+		},
+	});
+}
+
+export function startFakeHypeddit(
+	options: FakeHypedditOptions = {},
+): FakeHypeddit {
+	const {
+		gate = 'gate-email-sc.html',
+		grantDownload = true,
+		file = new Uint8Array(64 * 1024).map((_, index) => index % 251),
+		contentDisposition = `attachment; filename="${FIXTURE_FILENAME}"`,
+		dropAfter,
+		supportsRange = true,
+		spotifyConsent = true,
+	} = options;
+	const requests: FakeHypedditRequest[] = [];
+	let fileRequests = 0;
+	let spotifyAuthorized = false;
+
+	const spotify = Bun.serve({
+		port: 0,
+		fetch(req): Response {
+			const url = new URL(req.url);
+			if (url.pathname === '/login') {
+				return htmlResponse('<form id="login-form"></form>');
+			}
+			if (url.pathname !== '/authorize') {
+				return new Response('Not found', { status: 404 });
+			}
+			if (!req.headers.get('cookie')?.includes(`sp_dc=${SPOTIFY_SESSION}`)) {
+				return Response.redirect(
+					`${spotifyOrigin}/login?continue=${encodeURIComponent(req.url)}`,
+					302,
+				);
+			}
+			if (!spotifyConsent) {
+				return htmlResponse('<button data-testid="auth-accept">Agree</button>');
+			}
+			const callback = new URL(url.searchParams.get('redirect_uri') ?? '');
+			callback.searchParams.set('code', 'code-fixture');
+			callback.searchParams.set('state', url.searchParams.get('state') ?? '');
+			return Response.redirect(callback.href, 302);
+		},
+	});
+	const spotifyOrigin = `http://localhost:${spotify.port}`;
+
+	const serveFile = (req: Request): Response => {
+		fileRequests++;
+		const headers: Record<string, string> = {
+			'Content-Type': 'audio/wav',
+		};
+		if (contentDisposition) {
+			headers['Content-Disposition'] = contentDisposition;
+		}
+
+		const start = Number(req.headers.get('range')?.match(/bytes=(\d+)-/)?.[1]);
+		const resumed = supportsRange && start > 0;
+		const bytes = resumed ? file.slice(start) : file;
+		headers['Content-Length'] = String(bytes.byteLength);
+		if (resumed) {
+			headers['Content-Range'] =
+				`bytes ${start}-${file.byteLength - 1}/${file.byteLength}`;
+		}
+
+		const body =
+			dropAfter !== undefined && fileRequests === 1
+				? droppedBody(bytes, dropAfter)
+				: bytes;
+		return new Response(body, { status: resumed ? 206 : 200, headers });
+	};
+
+	const server = Bun.serve({
+		port: 0,
+		async fetch(req): Promise<Response> {
+			const url = new URL(req.url);
+			const form =
+				req.method === 'POST'
+					? new URLSearchParams(await req.text())
+					: new URLSearchParams();
+			requests.push({
+				method: req.method,
+				path: url.pathname,
+				headers: req.headers,
+				form,
+			});
+
+			switch (`${req.method} ${url.pathname}`) {
+				case 'GET /artist/track':
+					return htmlResponse(await readFixture(gate, origin));
+				case 'GET /smart/track':
+					return htmlResponse(await readFixture('smart-link.html', origin));
+				case 'GET /artist/removed':
+					return htmlResponse(await readFixture('removed.html', origin), 404);
+				case 'POST /gate/ge':
+				case 'POST /verifyEmailAddress':
+					return Response.json({ status: true });
+				case 'GET /spotify/login':
+					return Response.redirect(
+						`${spotifyOrigin}/authorize?client_id=hypeddit&response_type=code&redirect_uri=${encodeURIComponent(`${origin}/spotify/callback`)}&state=state-fixture`,
+						302,
+					);
+				case 'GET /spotify/callback':
+					// the authorization belongs to the session that started it
+					spotifyAuthorized =
+						url.searchParams.get('code') === 'code-fixture' &&
+						url.searchParams.get('state') === 'state-fixture' &&
+						!!req.headers.get('cookie')?.includes('hypeddit_session=');
+					return htmlResponse('<script>window.close()</script>');
+				case 'POST /gate/download/ul':
+					return Response.json(
+						grantDownload &&
+							(!form.get('steps')?.split(',').includes('sp') ||
+								spotifyAuthorized)
+							? {
+									download_status: true,
+									URL: `${origin}/files/download?response-content-disposition=${encodeURIComponent(`attachment; filename="${FIXTURE_FILENAME}"`)}`,
+								}
+							: { download_status: false },
+					);
+				case 'GET /files/download':
+					return serveFile(req);
+				default:
+					return new Response('Not found', { status: 404 });
+			}
+		},
+	});
+	const origin = `http://localhost:${server.port}`;
+
+	return {
+		origin,
+		gateUrl: `${origin}/artist/track`,
+		smartLinkUrl: `${origin}/smart/track`,
+		removedUrl: `${origin}/artist/removed`,
+		spotifyOrigin,
+		spotifyAuthorized: () => spotifyAuthorized,
+		file,
+		requests,
+		requestsTo: (path) => requests.filter((request) => request.path === path),
+		stop: () => {
+			server.stop(true);
+			spotify.stop(true);
+		},
+	};
+}
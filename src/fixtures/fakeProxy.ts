@@ -0,0 +1,140 @@
+import { connect, createServer, type Server, type Socket } from 'node:net';
+
+// Minimal SOCKS5 and HTTP CONNECT proxies that require credentials, so the
+// proxy bridge can be tested without a real proxy.
+
+export interface FakeProxy {
+	url: string;
+	// targets of the tunnels that were opened, as host:port
+	tunnels: string[];
+	stop(): void;
+}
+
+const USERNAME = 'fan';
+const PASSWORD = 'p@ss word';
+
+// credentials as they appear in a proxy URL
+export const FAKE_PROXY_AUTH = `${USERNAME}:${encodeURIComponent(PASSWORD)}`;
+
+// Calls `handle` with all bytes received so far until it returns true
+function onBytes(socket: Socket, handle: (bytes: Buffer) => boolean): void {
+	let buffer = Buffer.alloc(0);
+	const onData = (chunk: Buffer) => {
+		buffer = Buffer.concat([buffer, chunk]);
+		if (handle(buffer)) {
+			socket.off('data', onData);
+		}
+	};
+	socket.on('data', onData);
+}
+
+function tunnel(client: Socket, host: string, port: number, reply: Buffer) {
+	const upstream = connect({ host, port }, () => {
+		client.write(reply);
+		client.pipe(upstream);
+		upstream.pipe(client);
+	});
+	upstream.on('error', () => client.destroy());
+	client.on('error', () => upstream.destroy());
+}
+
+async function listen(
+	server: Server,
+	protocol: string,
+	tunnels: string[],
+): Promise<FakeProxy> {
+	await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+	const address = server.address();
+	const port = typeof address === 'object' && address ? address.port : 0;
+	return {
+		url: `${protocol}://${FAKE_PROXY_AUTH}@127.0.0.1:${port}`,
+		tunnels,
+		stop: () => server.close(),
+	};
+}
+
+export function startFakeSocks5Proxy(): Promise<FakeProxy> {
+	const tunnels: string[] = [];
+	const server = createServer((client) => {
+		// greeting, credentials and connect request, each answered before the next
+		let step: 'greeting' | 'auth' | 'connect' = 'greeting';
+		let buffer = Buffer.alloc(0);
+		const onData = (chunk: Buffer) => {
+			buffer = Buffer.concat([buffer, chunk]);
+			if (step === 'greeting' && buffer.length >= 2 + (buffer[1] ?? 0)) {
+				buffer = buffer.subarray(2 + (buffer[1] ?? 0));
+				client.write(Buffer.from([0x05, 0x02]));
+				step = 'auth';
+			}
+			if (step === 'auth' && buffer.length >= 2) {
+				const usernameLength = buffer[1] ?? 0;
+				const passwordLength = buffer[2 + usernameLength];
+				if (passwordLength === undefined) {
+					return;
+				}
+				const end = 3 + usernameLength + passwordLength;
+				if (buffer.length < end) {
+					return;
+				}
+				const username = buffer.subarray(2, 2 + usernameLength).toString();
+				const password = buffer.subarray(3 + usernameLength, end).toString();
+				buffer = buffer.subarray(end);
+				const valid = username === USERNAME && password === PASSWORD;
+				client.write(Buffer.from([0x01, valid ? 0x00 : 0x01]));
+				if (!valid) {
+					client.end();
+					return;
+				}
+				step = 'connect';
+			}
+			if (step === 'connect' && buffer.length >= 5) {
+				const hostLength = buffer[4] ?? 0;
+				if (buffer.length < 7 + hostLength) {
+					return;
+				}
+				const host = buffer.subarray(5, 5 + hostLength).toString();
+				const port = buffer.readUInt16BE(5 + hostLength);
+				client.off('data', onData);
+				tunnels.push(`${host}:${port}`);
+				tunnel(
+					client,
+					host,
+					port,
+					Buffer.from([0x05, 0x00, 0x00, 0x01, 0, 0, 0, 0, 0, 0]),
+				);
+			}
+		};
+		client.on('data', onData);
+	});
+	return listen(server, 'socks5', tunnels);
+}
+
+export function startFakeHttpProxy(): Promise<FakeProxy> {
+	const tunnels: string[] = [];
+	const expected = `Basic ${Buffer.from(`${USERNAME}:${PASSWORD}`).toString('base64')}`;
+	const server = createServer((client) => {
+		onBytes(client, (bytes) => {
+			const end = bytes.indexOf('\r\n\r\n');
+			if (end === -1) {
+				return false;
+			}
+			const head = bytes.subarray(0, end).toString('latin1');
+			const target = head.match(/^CONNECT (\S+) HTTP/)?.[1];
+			const authorization = head.match(/^Proxy-Authorization: (.*)$/im)?.[1];
+			if (!target || authorization !== expected) {
+				client.end('HTTP/1.1 407 Proxy Authentication Required\r\n\r\n');
+				return true;
+			}
+			tunnels.push(target);
+			const [host = '', port = ''] = target.split(':');
+			tunnel(
+				client,
+				host,
+				Number(port),
+				Buffer.from('HTTP/1.1 200 Connection Established\r\n\r\n'),
+			);
+			return true;
+		});
+	});
+	return listen(server, 'http', tunnels);
+}
@@ -0,0 +1,140 @@
+import { describe, expect, test } from 'bun:test';
+import { join } from 'node:path';
+import { parseGateData, readGatePage } from './gatePage';
+
+async function readFixture(name: string): Promise<string> {
+	return await Bun.file(
+		join(import.meta.dir, 'fixtures/hypeddit', name),
+	).text();
+}
+
+describe('readGatePage', () => {
+	test('reads a recorded gate page', async () => {
+		const page = readGatePage(await readFixture('gate-email-sc.html'));
+
+		expect(page.csrfToken).toBe('csrf-token-fixture');
+		expect(page.inputs.get('gvt')).toBe('gvt-fixture');
+		expect(page.inputs.get('nwSteps')).toBe('email,sc');
+		expect(page.inputs.get('duration')).toBe('215000');
+		expect(page.stepContainers).toEqual(['email', 'sc']);
+		expect(page.externalId).toBe('external-fixture');
+		expect(page.spotifySkippable).toBe(false);
+	});
+
+	test('reads the Hypeddit anchor of smart-link pages', async () => {
+		const page = readGatePage(await readFixture('smart-link.html'));
+
+		expect(page.smartLinkUrl).toBe('{{origin}}/artist/track');
+		expect(page.inputs.has('gvt')).toBe(false);
+	});
+
+	test('reads OR gate containers and skip buttons', async () => {
+		const page = readGatePage(await readFixture('gate-or.html'));
+
+		expect(page.stepContainers).toEqual(['email', 'ig|sp', 'ig', 'sp']);
+		expect(page.spotifySkippable).toBe(true);
+	});
+
+	test('does not depend on attribute order or quoting', () => {
+		const page = readGatePage(
+			`<meta content=token name=csrf-token><input value='a' type=hidden id=gvt><input
+				id="wrndk"
+				value="b"
+			>`,
+		);
+
+		expect(page.csrfToken).toBe('token');
+		expect(page.inputs.get('gvt')).toBe('a');
+		expect(page.inputs.get('wrndk')).toBe('b');
+	});
+
+	test('decodes entities in attribute values', () => {
+		const page = readGatePage(
+			'<a data-type="hypeddit" href="https://hypeddit.com/a?x=1&amp;y=&#39;2&#x27;">Free Download</a>',
+		);
+
+		expect(page.smartLinkUrl).toBe("https://hypeddit.com/a?x=1&y='2'");
+	});
+
+	test('ignores inputs outside of the markup, e.g. in comments', () => {
+		const page = readGatePage('<!-- <input id="gvt" value="old"> -->');
+
+		expect(page.inputs.has('gvt')).toBe(false);
+	});
+});
+
+describe('parseGateData', () => {
+	test('collects the gate fields', async () => {
+		const { gate, errors, warnings } = parseGateData(
+			readGatePage(await readFixture('gate-email-sc.html')),
+		);
+
+		expect(errors).toEqual([]);
+		expect(warnings).toEqual([]);
+		expect(gate).toEqual({
+			csrfToken: 'csrf-token-fixture',
+			gvt: 'gvt-fixture',
+			uid: 'uid-fixture',
+			steps: ['email', 'sc'],
+			wrndk: 'wrndk-fixture',
+			fanGateId: '4242',
+			isSkippable: '0',
+			externalId: 'external-fixture',
+			duration: 215000,
+		});
+	});
+
+	test('reports every missing field', async () => {
+		const { gate, errors } = parseGateData(
+			readGatePage(await readFixture('removed.html')),
+		);
+
+		expect(gate).toBeNull();
+		expect(errors).toEqual([
+			'<meta name="csrf-token"> not found',
+			'hidden input #gvt not found',
+			'hidden input #current_download_file_listner not found',
+			'hidden input #wrndk not found',
+			'hidden input #fan_gate_id not found',
+			'no gate steps found (#nwSteps and #all_steps are missing)',
+		]);
+	});
+
+	test('reports empty fields', async () => {
+		const html = (await readFixture('gate-email-sc.html')).replace(
+			'value="wrndk-fixture"',
+			'value=""',
+		);
+
+		const { gate, errors } = parseGateData(readGatePage(html));
+
+		expect(gate).toBeNull();
+		expect(errors).toEqual(['hidden input #wrndk is empty']);
+	});
+
+	test('falls back to defaults for optional fields', async () => {
+		const { gate, warnings } = parseGateData(
+			readGatePage(await readFixture('gate-spotify.html')),
+		);
+
+		expect(gate).toMatchObject({ externalId: '', duration: 3 * 60 * 1000 });
+		expect(warnings).toEqual([
+			'externID not found in the inline scripts',
+			'hidden input #duration missing or invalid, assuming 3 minutes',
+		]);
+	});
+
+	test('uses the step containers when #nwSteps is missing', async () => {
+		const html = (await readFixture('gate-email-sc.html')).replace(
+			'<input type="hidden" id="nwSteps" value="email,sc">',
+			'',
+		);
+
+		const { gate, warnings } = parseGateData(readGatePage(html));
+
+		expect(gate?.steps).toEqual(['email', 'sc']);
+		expect(warnings).toEqual([
+			'hidden input #nwSteps not found, using the step containers in #all_steps',
+		]);
+	});
+});
@@ -0,0 +1,208 @@
+// Reads the parts of a Hypeddit gate page the browserless flow needs with Bun's
+// HTMLRewriter, so attribute order, quoting and whitespace don't matter.
+
+export interface GateData {
+	csrfToken: string;
+	gvt: string;
+	uid: string;
+	steps: string[];
+	wrndk: string;
+	fanGateId: string;
+	isSkippable: string;
+	externalId: string;
+	duration: number;
+}
+
+export interface GatePage {
+	csrfToken?: string;
+	// values of all inputs by id
+	inputs: Map<string, string>;
+	// first class of every step container in #all_steps, e.g. `email` or `sc|sp`
+	stepContainers: string[];
+	smartLinkUrl?: string;
+	// the Spotify step offers a skip button
+	spotifySkippable: boolean;
+	// URL the Spotify connect button opens, may be relative
+	spotifyLoginUrl?: string;
+	externalId?: string;
+}
+
+export interface GateParseResult {
+	// null when a required field is missing
+	gate: GateData | null;
+	// one message per required field that could not be read
+	errors: string[];
+	// optional fields that fell back to a default
+	warnings: string[];
+}
+
+const DEFAULT_DURATION_MS = 3 * 60 * 1000;
+
+const ENTITIES: Record<string, string> = {
+	amp: '&',
+	lt: '<',
+	gt: '>',
+	quot: '"',
+	apos: "'",
+};
+
+// HTMLRewriter returns attribute values as written in the markup
+function decodeEntities(value: string): string {
+	return value.replace(
+		/&(?:#(\d+)|#x([\da-f]+)|(\w+));/gi,
+		(entity, decimal, hex, name) => {
+			if (decimal) return String.fromCodePoint(Number(decimal));
+			if (hex) return String.fromCodePoint(Number.parseInt(hex, 16));
+			return ENTITIES[name.toLowerCase()] ?? entity;
+		},
+	);
+}
+
+function attribute(element: HTMLRewriterTypes.Element, name: string) {
+	const value = element.getAttribute(name);
+	return value === null ? undefined : decodeEntities(value);
+}
+
+export function readGatePage(html: string): GatePage {
+	const page: GatePage = {
+		inputs: new Map(),
+		stepContainers: [],
+		spotifySkippable: false,
+	};
+	let scriptText = '';
+
+	new HTMLRewriter()
+		.on('meta[name="csrf-token"]', {
+			element(element) {
+				page.csrfToken ??= attribute(element, 'content');
+			},
+		})
+		.on('input[id]', {
+			element(element) {
+				const id = attribute(element, 'id');
+				if (id && !page.inputs.has(id)) {
+					page.inputs.set(id, attribute(element, 'value') ?? '');
+				}
+			},
+		})
+		.on('#all_steps > div', {
+			element(element) {
+				const gate = attribute(element, 'class')?.trim().split(/\s+/)[0];
+				if (gate) {
+					page.stepContainers.push(gate);
+				}
+			},
+		})
+		.on('a[data-type="hypeddit"][href]', {
+			element(element) {
+				page.smartLinkUrl ??= attribute(element, 'href');
+			},
+		})
+		.on('#skipper_sp', {
+			element() {
+				page.spotifySkippable = true;
+			},
+		})
+		// a plain link, or a popup opened by `window.open('...')`
+		.on('#login_to_sp', {
+			element(element) {
+				const href = attribute(element, 'href');
+				page.spotifyLoginUrl =
+					href && !/^(?:#|javascript:)/i.test(href)
+						? href
+						: attribute(element, 'onclick')?.match(
+								/window\.open\(\s*["']([^"']+)["']/,
+							)?.[1];
+			},
+		})
+		// the external id is only set in an inline script
+		.on('script', {
+			text(text) {
+				scriptText += text.text;
+				if (text.lastInTextNode) {
+					page.externalId ??= scriptText.match(
+						/externID["']?\s*:\s*["']([^"']+)["']/,
+					)?.[1];
+					scriptText = '';
+				}
+			},
+		})
+		.transform(html);
+
+	return page;
+}
+
+/**
+ * Collects the gate fields from a page. Every missing required field is
+ * reported on its own, so markup changes on Hypeddit are easy to pin down.
+ */
+export function parseGateData(page: GatePage): GateParseResult {
+	const errors: string[] = [];
+	const warnings: string[] = [];
+
+	const requireInput = (id: string): string => {
+		const value = page.inputs.get(id);
+		if (value === undefined) {
+			errors.push(`hidden input #${id} not found`);
+		} else if (!value) {
+			errors.push(`hidden input #${id} is empty`);
+		}
+		return value ?? '';
+	};
+
+	if (!page.csrfToken) {
+		errors.push('<meta name="csrf-token"> not found');
+	}
+	const gvt = requireInput('gvt');
+	const uid = requireInput('current_download_file_listner');
+	const wrndk = requireInput('wrndk');
+	const fanGateId = requireInput('fan_gate_id');
+
+	let steps = (page.inputs.get('nwSteps') ?? '').split(',').filter(Boolean);
+	if (!steps.length && page.stepContainers.length) {
+		warnings.push(
+			'hidden input #nwSteps not found, using the step containers in #all_steps',
+		);
+		steps = page.stepContainers.filter((step) => step !== 'dw');
+	}
+	if (!steps.length) {
+		errors.push('no gate steps found (#nwSteps and #all_steps are missing)');
+	}
+
+	if (!page.externalId) {
+		warnings.push('externID not found in the inline scripts');
+	}
+	const durationRaw = Number(page.inputs.get('duration'));
+	const duration =
+		Number.isFinite(durationRaw) && durationRaw > 0
+			? durationRaw
+			: DEFAULT_DURATION_MS;
+	if (duration !== durationRaw) {
+		warnings.push(
+			'hidden input #duration missing or invalid, assuming 3 minutes',
+		);
+	}
+	const isSkippable = page.inputs.get('is_skippable');
+	if (isSkippable === undefined) {
+		warnings.push('hidden input #is_skippable not found, assuming 0');
+	}
+
+	if (errors.length || !page.csrfToken) {
+		return { gate: null, errors, warnings };
+	}
+	return {
+		gate: {
+			csrfToken: page.csrfToken,
+			gvt,
+			uid,
+			steps,
+			wrndk,
+			fanGateId,
+			isSkippable: isSkippable ?? '0',
+			externalId: page.externalId ?? '',
+			duration,
+		},
+		errors,
+		warnings,
+	};
+}
@@ -0,0 +1,86 @@
+import type { Browser, Page } from 'puppeteer';
+import type { GateData, GatePage } from './gatePage';
+import type { HypedditConfig, JobProgress } from './types';
+
+// Gate handlers by the step name Hypeddit uses in #all_steps and #nwSteps, e.g.
+// `email` or `sc`. The built-in gates are registered in builtinGates.ts; other
+// modules can add new gate types with registerGate before a download starts.
+
+export interface BrowserGateContext {
+	browser: Browser;
+	config: HypedditConfig;
+	spotifyCookiesFound: boolean;
+	// clicks the download button and resolves once the file is saved
+	download(page: Page): Promise<void>;
+}
+
+export interface BrowserlessGateContext {
+	gate: GateData;
+	page: GatePage;
+	// gate URL after redirects, sent as the referer of the form requests
+	gateUrl: string;
+	config: HypedditConfig;
+	// posts a form to Hypeddit with the session cookies and CSRF token
+	post(path: string, body: Record<string, string>): Promise<Response>;
+	// replays the Spotify connect popup with the stored Spotify session
+	authorizeSpotify(loginUrl: string): Promise<void>;
+	emitProgress(
+		message: string,
+		percent: number,
+		extra?: Partial<JobProgress>,
+	): void;
+}
+
+export interface BrowserlessGateHandler {
+	// whether the step can be completed without a browser, always if omitted
+	canHandle?(page: GatePage, spotifyCookiesFound: boolean): boolean;
+	/**
+	 * Completes the step with plain requests. Resolves to true when Hypeddit
+	 * verified the step; all other steps are declared as skipped on the download
+	 * request. Steps without a handler are only skipped.
+	 */
+	handle?(context: BrowserlessGateContext): Promise<boolean>;
+}
+
+export interface GateHandler {
+	name: string;
+	label: string;
+	// OR gates pick the choice with the lowest difficulty
+	difficulty: number;
+	browser: (page: Page, context: BrowserGateContext) => Promise<void>;
+	// steps without it always need the browser
+	browserless?: BrowserlessGateHandler;
+}
+
+const gates = new Map<string, GateHandler>();
+
+// A later registration replaces the handler of the same name, e.g. to override
+// a built-in gate
+export function registerGate(handler: GateHandler): void {
+	gates.set(handler.name, handler);
+}
+
+export function getGate(name: string): GateHandler | undefined {
+	return gates.get(name);
+}
+
+export function getGateLabel(name: string): string {
+	return gates.get(name)?.label ?? name;
+}
+
+export function getGateDifficulty(name: string): number {
+	return gates.get(name)?.difficulty ?? Number.MAX_SAFE_INTEGER;
+}
+
+// Whether the browserless path can complete a gate step
+export function canHandleBrowserless(
+	name: string,
+	page: GatePage,
+	spotifyCookiesFound: boolean,
+): boolean {
+	const browserless = gates.get(name)?.browserless;
+	if (!browserless) {
+		return false;
+	}
+	return browserless.canHandle?.(page, spotifyCookiesFound) ?? true;
+}
@@ -1,8 +1,23 @@
 import { Presets, SingleBar } from 'cli-progress';
-import puppeteer, { type Browser, type Page } from 'puppeteer';
-import Selectors from './selectors';
+import puppeteer, {
+	type Browser,
+	type LaunchOptions,
+	type Page,
+	type Target,
+} from 'puppeteer';
+import './builtinGates';
+import { BrowserDiagnostics, getRunDiagnosticsPath } from './diagnostics';
+import { getGate, getGateDifficulty, getGateLabel } from './gateRegistry';
+import { browserProxy, PROXY_ROTATION_STATUSES, rotateProxy } from './proxy';
+import {
+	checkSelectors,
+	type SelectorCheck,
+	type SelectorCounts,
+} from './selectorCheck';
+import Selectors, { getSelectorAlternatives, SELECTOR_KEYS } from './selectors';
+import { formatDuration, getTiming, JobDeadlineError } from './timing';
 import type { HypedditConfig, JobProgress, JobStage } from './types';
-import { loadCookies, REPO_URL, timeout } from './utils';
+import { loadCookies, REPO_URL, removeDownload, timeout } from './utils';
 
 export type ProgressCallback = (
 	stage: JobStage,
@@ -11,11 +26,91 @@ export type ProgressCallback = (
 	extra?: Partial<JobProgress>,
 ) => void;
 
-interface GateDefinition {
-	name: string;
-	label: string;
-	difficulty: number;
-	handler: (page: Page) => Promise<void>;
+// Counts the matches of every selector alternative on the page, keeping the
+// highest count of earlier pages
+async function countSelectors(page: Page, counts: SelectorCounts) {
+	const selectors = SELECTOR_KEYS.flatMap((key) =>
+		getSelectorAlternatives(key).map((alternative) => alternative.selector),
+	);
+	const pageCounts = await page.evaluate((selectors) => {
+		return selectors.map((selector) => {
+			try {
+				return document.querySelectorAll(selector).length;
+			} catch {
+				return -1;
+			}
+		});
+	}, selectors);
+	selectors.forEach((selector, index) => {
+		counts.set(
+			selector,
+			Math.max(counts.get(selector) ?? -1, pageCounts[index] ?? -1),
+		);
+	});
+}
+
+const SOUNDCLOUD_COOKIES_PATH = 'soundcloud-cookies.json';
+const SPOTIFY_COOKIES_PATH = 'spotify-cookies.json';
+
+// The browser connects through the local proxy bridge, which picks the current
+// proxy for every new connection. A blocked or rate-limited page load moves
+// on to the next proxy, so a retry of the job goes out from another IP.
+function rotateProxyOnBlock(browser: Browser) {
+	browser.on('targetcreated', async (target) => {
+		const page = await target.page();
+		page?.on('response', (response) => {
+			if (
+				response.request().isNavigationRequest() &&
+				PROXY_ROTATION_STATUSES.has(response.status())
+			) {
+				console.log(
+					`${response.url()} answered ${response.status()} through the proxy`,
+				);
+				rotateProxy();
+			}
+		});
+	});
+}
+
+// Whether puppeteer closes the browser and exits the process on these signals
+export type BrowserLaunchOptions = Pick<
+	LaunchOptions,
+	'headless' | 'handleSIGINT' | 'handleSIGTERM' | 'handleSIGHUP'
+>;
+
+// Launches Chromium with the persistent profile and the stored login cookies
+export async function launchBrowser(
+	options: BrowserLaunchOptions,
+): Promise<Browser> {
+	const proxy = browserProxy();
+	const browser = await puppeteer.launch({
+		...options,
+		userDataDir: './browser-data', // persistent data directory for cookies/login
+		args: [
+			'--no-sandbox',
+			'--disable-setuid-sandbox',
+			'--mute-audio',
+			'--hide-crash-restore-bubble',
+			'--no-first-run',
+			'--no-default-browser-check',
+			'--disable-restore-session-state',
+			'--window-size=1920,1080',
+			...(proxy ? [`--proxy-server=${proxy}`] : []),
+		],
+	});
+	if (proxy) {
+		rotateProxyOnBlock(browser);
+	}
+
+	// Load and set cookies at browser context level to make them available to all pages
+	const browserContext = browser.defaultBrowserContext();
+	const soundCloudCookies = await loadCookies(SOUNDCLOUD_COOKIES_PATH);
+	await browserContext.setCookie(...soundCloudCookies);
+	if (await Bun.file(SPOTIFY_COOKIES_PATH).exists()) {
+		const spotifyCookies = await loadCookies(SPOTIFY_COOKIES_PATH);
+		await browserContext.setCookie(...spotifyCookies);
+	}
+	return browser;
 }
 
 export class HypedditDownloader {
@@ -24,107 +119,95 @@ export class HypedditDownloader {
 	private config: HypedditConfig;
 	private spotifyCookiesExists = false;
 	private progressCallback: ProgressCallback | null = null;
-	private readonly gateDefinitions: GateDefinition[] = [
-		{
-			name: 'email',
-			label: 'Email',
-			difficulty: 1,
-			handler: (p) => this.handleEmailSlide(p),
-		},
-		{
-			name: 'sc',
-			label: 'SoundCloud',
-			difficulty: 3,
-			handler: (p) => this.handleSoundcloudSlide(p),
-		},
-		{
-			name: 'ig',
-			label: 'Instagram',
-			difficulty: 2,
-			handler: (p) => this.handleInstagramSlide(p),
-		},
-		{
-			name: 'tk',
-			label: 'TikTok',
-			difficulty: 2,
-			handler: (p) => this.handleTiktokSlide(p),
-		},
-		{
-			name: 'yt',
-			label: 'YouTube',
-			difficulty: 2,
-			handler: (p) => this.handleYoutubeSlide(p),
-		},
-		{
-			name: 'fb',
-			label: 'Facebook',
-			difficulty: 2,
-			handler: (p) => this.handleFacebookSlide(p),
-		},
-		{
-			name: 'sp',
-			label: 'Spotify',
-			difficulty: 3,
-			handler: (p) => this.handleSpotifySlide(p),
-		},
-		{
-			name: 'dw',
-			label: 'Download',
-			difficulty: 0,
-			handler: (p) => this.handleDownloadSlide(p),
-		},
-	];
+	private abortSignal: AbortSignal | null = null;
+	private readonly diagnostics = new BrowserDiagnostics();
+	// where a failed run saves its diagnostics, a timestamped folder by default
+	private diagnosticsPath: string | null = null;
+	// false for a shared browser, which outlives this downloader
+	private ownsBrowser = false;
+	private readonly pages = new Set<Page>();
+	// last reported stage, named by the deadline error
+	private stage: JobStage = 'handling_gates';
 
 	constructor(config: HypedditConfig) {
 		this.config = config;
 	}
 
-	private getGateDefinition(gateName: string) {
-		return this.gateDefinitions.find((gate) => gate.name === gateName);
-	}
-
 	setProgressCallback(callback: ProgressCallback): void {
 		this.progressCallback = callback;
 	}
 
+	// Aborting closes the browser or the pages of this job, which makes every
+	// pending page operation reject, and removes the partially downloaded file.
+	setAbortSignal(signal: AbortSignal): void {
+		this.abortSignal = signal;
+		signal.addEventListener('abort', () => void this.abort(), { once: true });
+	}
+
+	setDiagnosticsPath(path: string): void {
+		this.diagnosticsPath = path;
+	}
+
+	private async abort(): Promise<void> {
+		console.log('Cancelling browser download...');
+		try {
+			await this.close();
+		} catch (error) {
+			console.warn('Failed to close browser:', error);
+		}
+		if (this.downloadFilename) {
+			await removeDownload(this.downloadFilename);
+		}
+	}
+
 	private emitProgress(
 		stage: JobStage,
 		message: string,
 		percent: number,
 		extra?: Partial<JobProgress>,
 	): void {
+		this.stage = stage;
+		this.diagnostics.step = message;
+		if (extra?.currentGate) {
+			this.diagnostics.currentGate = extra.currentGate;
+		}
 		if (this.progressCallback) {
 			this.progressCallback(stage, message, percent, extra);
 		}
 	}
 
 	async initialize() {
-		this.browser = await puppeteer.launch({
-			headless: this.config.headless,
-			userDataDir: './browser-data', // persistent data directory for cookies/login
-			args: [
-				'--no-sandbox',
-				'--disable-setuid-sandbox',
-				'--mute-audio',
-				'--hide-crash-restore-bubble',
-				'--no-first-run',
-				'--no-default-browser-check',
-				'--disable-restore-session-state',
-				'--window-size=1920,1080',
-			],
-		});
+		await this.attachBrowser(
+			await launchBrowser({
+				headless: this.config.headless,
+				// when the caller can cancel us it also handles Ctrl+C, and puppeteer's
+				// own handler would exit the process before partial files are removed
+				handleSIGINT: !this.abortSignal,
+			}),
+		);
+		this.ownsBrowser = true;
+	}
 
-		// Load and set cookies at browser context level to make them available to all pages
-		const browserContext = this.browser.defaultBrowserContext();
-		const soundCloudCookies = await loadCookies('soundcloud-cookies.json');
-		await browserContext.setCookie(...soundCloudCookies);
-		this.spotifyCookiesExists = await Bun.file('spotify-cookies.json').exists();
-		if (this.spotifyCookiesExists) {
-			const spotifyCookies = await loadCookies('spotify-cookies.json');
-			await browserContext.setCookie(...spotifyCookies);
-		}
+	/**
+	 * Runs on a browser that stays open after the job, e.g. the warm browser of
+	 * the server. Only the pages this job opens are closed again.
+	 */
+	async attachBrowser(browser: Browser): Promise<void> {
+		this.browser = browser;
+		this.ownsBrowser = false;
+		browser.on('targetcreated', this.onTargetCreated);
+		this.spotifyCookiesExists = await Bun.file(SPOTIFY_COOKIES_PATH).exists();
 	}
 
+	// Every page opened while attached belongs to this job, popups of the gates too
+	private readonly onTargetCreated = async (target: Target) => {
+		const page = await target.page();
+		if (page) {
+			this.pages.add(page);
+			this.diagnostics.attach(page);
+		}
+	};
+
 	async handlePossibleCaptcha(page: Page) {
 		const captchaContainer = await page.$(
 			Selectors.SOUNDCLOUD_CAPTCHA_CONTAINER,
@@ -142,6 +225,9 @@ export class HypedditDownloader {
 
 		console.log('Captcha iframe found');
 		const frame = await captchaIframe.contentFrame();
+		if (!frame) {
+			throw new Error('Captcha iframe content not found');
+		}
 
 		// Wait for slider inside the iframe
 		await frame.waitForSelector(Selectors.SOUNDCLOUD_CAPTCHA_SLIDER, {
@@ -207,7 +293,7 @@ export class HypedditDownloader {
 		try {
 			await soundCloudPage.waitForSelector(
 				Selectors.SOUNDCLOUD_CAPTCHA_CONTAINER,
-				{ timeout: 30_000 },
+				{ timeout: getTiming().elementMs },
 			);
 			captchaFrameFound = true;
 		} catch {
@@ -219,7 +305,7 @@ export class HypedditDownloader {
 		}
 
 		await soundCloudPage.waitForSelector(Selectors.SOUNDCLOUD_LIBRARY_LINK, {
-			timeout: 30_000,
+			timeout: getTiming().elementMs,
 		});
 		await Promise.all([
 			soundCloudPage.click(Selectors.SOUNDCLOUD_LIBRARY_LINK),
@@ -235,12 +321,18 @@ export class HypedditDownloader {
 			const spotifyPage = await this.browser.newPage();
 			spotifyPage.setViewport({ width: 1920, height: 1080 });
 			await spotifyPage.goto('http://accounts.spotify.com/');
-			await spotifyPage.waitForNetworkIdle({ timeout: 30_000, idleTime: 10 });
+			await spotifyPage.waitForNetworkIdle({
+				timeout: getTiming().pageLoadMs,
+				idleTime: 10,
+			});
 			await Promise.all([
 				spotifyPage.click(Selectors.SPOTIFY_ACCOUNT_SETTINGS_LINK),
 				spotifyPage.waitForNavigation({ waitUntil: 'domcontentloaded' }),
 			]);
-			await spotifyPage.waitForNetworkIdle({ timeout: 30_000, idleTime: 10 });
+			await spotifyPage.waitForNetworkIdle({
+				timeout: getTiming().pageLoadMs,
+				idleTime: 10,
+			});
 			await spotifyPage.close();
 		}
 	}
@@ -250,10 +342,73 @@ export class HypedditDownloader {
 		this.emitProgress('handling_gates', 'Navigating to Hypeddit post...', 25);
 
 		const page = await this.browser.newPage();
+		this.diagnostics.attach(page);
+		const { pageLoadMs, elementMs, jobDeadlineMs } = getTiming();
+		page.setDefaultNavigationTimeout(pageLoadMs);
+		page.setDefaultTimeout(elementMs);
+
+		// The flow itself keeps running until close(), but the job fails right away,
+		// while the page can still be saved for the diagnostics
+		let deadlineTimer: Timer | undefined;
+		const deadline = new Promise<never>((_, reject) => {
+			deadlineTimer = setTimeout(
+				() =>
+					reject(
+						new JobDeadlineError(
+							`Browser download timed out after ${formatDuration(jobDeadlineMs)} ${this.describeStage()}`,
+						),
+					),
+				jobDeadlineMs,
+			);
+		});
+		try {
+			return await Promise.race([this.handlePost(page, url), deadline]);
+		} catch (error) {
+			// a cancelled job has nothing worth looking at
+			if (!this.abortSignal?.aborted) {
+				await this.saveDiagnostics(page, error);
+			}
+			throw error;
+		} finally {
+			clearTimeout(deadlineTimer);
+		}
+	}
+
+	// Where the job got stuck, e.g. "while handling the Spotify gate"
+	private describeStage(): string {
+		const { currentGate } = this.diagnostics;
+		switch (this.stage) {
+			case 'downloading':
+				return this.downloadFilename
+					? `while downloading ${this.downloadFilename}`
+					: 'while waiting for the download to start';
+			case 'handling_gates':
+				return currentGate
+					? `while handling the ${getGateLabel(currentGate)} gate`
+					: 'while opening the Hypeddit post';
+			default:
+				return `during ${this.stage.replaceAll('_', ' ')}`;
+		}
+	}
+
+	private async saveDiagnostics(page: Page, error: unknown): Promise<void> {
+		const directory = this.diagnosticsPath ?? getRunDiagnosticsPath();
+		try {
+			await this.diagnostics.save(directory, page, error);
+			console.log(`Saved diagnostics of the failed run to ${directory}`);
+		} catch (saveError) {
+			console.warn('Failed to save diagnostics:', saveError);
+		}
+	}
+
+	private async handlePost(page: Page, url: string): Promise<string | null> {
 		await page.setViewport({ width: 1920, height: 1080 });
 		await page.goto(url);
 		// wait for page to be loaded
-		await page.waitForNetworkIdle({ timeout: 30_000, idleTime: 10 });
+		await page.waitForNetworkIdle({
+			timeout: getTiming().pageLoadMs,
+			idleTime: 10,
+		});
 
 		// Some Hypeddit URLs resolve to a smart link "selection" page that lists multiple
 		// platforms (Bandcamp, Hypeddit, etc.). In that case we need to follow the
@@ -274,7 +429,10 @@ export class HypedditDownloader {
 				27,
 			);
 			await page.goto(hypedditUrl);
-			await page.waitForNetworkIdle({ timeout: 30_000, idleTime: 10 });
+			await page.waitForNetworkIdle({
+				timeout: getTiming().pageLoadMs,
+				idleTime: 10,
+			});
 		}
 
 		await page.waitForSelector(Selectors.DOWNLOAD_PROCESS_BUTTON);
@@ -290,6 +448,7 @@ export class HypedditDownloader {
 			).map((div) => div.classList.item(0));
 		}, Selectors.ALL_STEPS_CHILD_DIVS);
 		console.log('Hypeddit gates found', rawGateNames);
+		this.diagnostics.gates = rawGateNames.filter((name) => name !== null);
 
 		const normalizedGates = rawGateNames.flatMap((rawGateName) => {
 			if (!rawGateName) {
@@ -313,10 +472,12 @@ export class HypedditDownloader {
 
 		// go through all gate names and call the corresponding gate handler
 		for (const { gateName, candidates } of normalizedGates) {
-			const gateDefinition = this.getGateDefinition(gateName);
-			if (!gateDefinition) {
+			this.abortSignal?.throwIfAborted();
+
+			const gate = getGate(gateName);
+			if (!gate) {
 				throw new Error(
-					`No handler found for gate ${gateName}. Please create an issue about this on ${REPO_URL}/issues`,
+					`No handler registered for gate ${gateName}. Please create an issue about this on ${REPO_URL}/issues`,
 				);
 			}
 
@@ -324,23 +485,26 @@ export class HypedditDownloader {
 				await this.selectOrGate(page, candidates, gateName);
 			}
 
-			const { label: gateLabel, handler: gateHandler } = gateDefinition;
-
 			const currentProgress = 30 + gateIndex * progressPerGate;
 
 			console.log(`Now handling ${gateName} gate...`);
 			this.emitProgress(
 				'handling_gates',
-				`Handling ${gateLabel} gate...`,
+				`Handling ${gate.label} gate...`,
 				currentProgress,
 				{ currentGate: gateName },
 			);
 
-			await gateHandler(page);
+			await gate.browser(page, {
+				browser: this.browser,
+				config: this.config,
+				spotifyCookiesFound: this.spotifyCookiesExists,
+				download: (page) => this.handleDownloadSlide(page),
+			});
 
 			console.log(`✓ ${gateName} gate handled successfully`);
 			gateIndex++;
-			await timeout(1_000);
+			await timeout(getTiming().gateDelayMs);
 		}
 
 		// browser is no longer needed
@@ -349,292 +513,74 @@ export class HypedditDownloader {
 		return this.downloadFilename;
 	}
 
-	async close() {
-		await this.browser?.close();
-	}
+	// Opens the gate like a download would, without handling any step, and
+	// reports which selectors the page matches
+	async validateSelectors(url: string): Promise<SelectorCheck[]> {
+		const page = await this.browser.newPage();
+		await page.setViewport({ width: 1920, height: 1080 });
+		await page.goto(url);
+		await page.waitForNetworkIdle({
+			timeout: getTiming().pageLoadMs,
+			idleTime: 10,
+		});
+		const counts: SelectorCounts = new Map();
+		await countSelectors(page, counts);
 
-	private async handleEmailSlide(page: Page) {
-		const nextButton = await page.waitForSelector(Selectors.EMAIL_NEXT_BUTTON);
-		if (!nextButton) {
-			throw new Error('Next button not found');
-		}
-		// not all email gates require entering a name
-		const emailNameInput = await page.$(Selectors.EMAIL_NAME_INPUT);
-		if (emailNameInput) {
-			await page.type(Selectors.EMAIL_NAME_INPUT, this.config.name);
+		const smartLinkAnchor = await page.$(
+			Selectors.HYPEDDIT_SMART_LINK_HYPEDDIT_ANCHOR,
+		);
+		if (smartLinkAnchor) {
+			await page.goto(
+				await smartLinkAnchor.evaluate((el) => (el as HTMLAnchorElement).href),
+			);
+			await page.waitForNetworkIdle({
+				timeout: getTiming().pageLoadMs,
+				idleTime: 10,
+			});
 		}
-		await page.type(Selectors.EMAIL_ADDRESS_INPUT, this.config.email);
-		await nextButton.click();
-	}
 
-	// Handles gates that list individual action buttons (follow/like/repost/...)
-	// which each open a popup and mark themselves as done on click. Hypeddit does
-	// not verify the actions were actually performed, so closing the popup is enough.
-	private async handleSocialButtonsSlide(
-		page: Page,
-		platform: string,
-		options: {
-			statusButtonSelector: string;
-			undoneButtonSelector: string;
-			nextButtonSelector: string;
-			windowUrlPart: string;
-		},
-	) {
-		const {
-			statusButtonSelector,
-			undoneButtonSelector,
-			nextButtonSelector,
-			windowUrlPart,
-		} = options;
-
-		await page.waitForSelector(statusButtonSelector);
-		// click each button that is not done yet
-		// loop until there are no more buttons with the undone class
-		while (true) {
-			// try to find a button that's not done
-			const button = await page.$(undoneButtonSelector);
-			if (!button) {
-				break;
-			}
-
-			await page.click(undoneButtonSelector);
-
-			// wait for the popup window to appear (with timeout)
-			let popupWindow: Page | undefined;
-			const maxWaitTime = 5000;
-			const startTime = Date.now();
-			while (!popupWindow && Date.now() - startTime < maxWaitTime) {
-				const pages = await this.browser.pages(true);
-				popupWindow = pages.find(
-					(window) => window !== page && window.url().includes(windowUrlPart),
-				);
-				if (!popupWindow) {
-					await timeout(200);
-				}
-			}
-
-			if (!popupWindow) {
-				throw new Error(`${platform} window not found after clicking button`);
-			}
-			await popupWindow.close();
-
-			// wait for the page to update after closing the window
-			// the button should get the done class instead of undone
-			await timeout(1_000);
-
-			// wait for network to be idle to ensure DOM has updated
+		let steps: string[] = [];
+		if (await page.$(Selectors.DOWNLOAD_PROCESS_BUTTON)) {
+			await page.click(Selectors.DOWNLOAD_PROCESS_BUTTON);
 			try {
-				await page.waitForNetworkIdle({ timeout: 3_000 });
+				await page.waitForSelector(Selectors.ALL_STEPS_CONTAINER, {
+					timeout: getTiming().elementMs,
+				});
+				steps = await page.evaluate((allStepsDivsSelector) => {
+					return Array.from(
+						document.querySelectorAll<HTMLDivElement>(allStepsDivsSelector),
+					).flatMap((div) => div.classList.item(0)?.split('|') ?? []);
+				}, Selectors.ALL_STEPS_CHILD_DIVS);
 			} catch {
-				// ignore timeout
+				// reported as missing below
 			}
 		}
+		await countSelectors(page, counts);
+		await page.close();
 
-		// then we can click next
-		await page.waitForSelector(nextButtonSelector);
-		await page.click(nextButtonSelector);
+		return checkSelectors(counts, steps.filter(Boolean), !!smartLinkAnchor);
 	}
 
-	private async handleSoundcloudSlide(page: Page) {
-		// check if #skipper_sc exists, if yes we can just click it to skip this step
-		const skipperSc = await page.evaluate((skipperScSelector) => {
-			return document.querySelector(skipperScSelector) !== null;
-		}, Selectors.SC_SKIPPER_BUTTON);
-		if (skipperSc) {
-			console.log('Soundcloud gate can be skipped for this post. Skipping...');
-			await page.click(Selectors.SC_SKIPPER_BUTTON);
-			return;
-		}
-
-		// Hypeddit no longer connects to SoundCloud via OAuth: the gate now lists
-		// individual follow/like/comment/repost buttons that each open a popup and
-		// are marked done on click, just like the Instagram/TikTok gates.
-		const statusButtons = await page.$(Selectors.SC_STATUS_BUTTON);
-		if (statusButtons) {
-			await this.handleSocialButtonsSlide(page, 'SoundCloud', {
-				statusButtonSelector: Selectors.SC_STATUS_BUTTON,
-				undoneButtonSelector: Selectors.SC_STATUS_UNDONE_BUTTON,
-				nextButtonSelector: Selectors.SC_NEXT_BUTTON,
-				windowUrlPart: 'soundcloud.com',
-			});
+	async close() {
+		if (!this.browser) {
 			return;
 		}
-
-		// legacy OAuth connect flow
-		// not all hypeddit soundcloud gates have a comment text field, if it does not exist we can skip this
-		const scCommentText = await page.$(Selectors.SC_COMMENT_TEXT_INPUT);
-		if (scCommentText) {
-			// if it exists, we need to enter a comment
-			await page.type(Selectors.SC_COMMENT_TEXT_INPUT, this.config.comment);
-			await timeout(750);
-		}
-
-		// then we can click next
-		const loginButton = await page.waitForSelector(Selectors.SC_LOGIN_BUTTON);
-		if (!loginButton) {
-			throw new Error('Login button not found');
-		}
-		await loginButton.click();
-		await timeout(1_500);
-
-		// wait for the SoundCloud window to appear (with timeout)
-		let soundCloudWindow: Page | undefined;
-		const maxWaitTime = 5000;
-		const startTime = Date.now();
-		while (!soundCloudWindow && Date.now() - startTime < maxWaitTime) {
-			const pages = await this.browser.pages(true);
-			soundCloudWindow = pages.find((window) =>
-				window.url().includes('soundcloud.com'),
-			);
-			if (!soundCloudWindow) {
-				await timeout(200);
+		this.browser.off('targetcreated', this.onTargetCreated);
+		// may already have been closed by an abort
+		if (this.ownsBrowser) {
+			if (this.browser.connected) {
+				await this.browser.close();
 			}
-		}
-
-		if (!soundCloudWindow) {
-			throw new Error(
-				'SoundCloud window not found after clicking login button',
-			);
-		}
-		await soundCloudWindow.bringToFront();
-		await soundCloudWindow.setViewport({ width: 1920, height: 1080 });
-		await soundCloudWindow.waitForNetworkIdle({ timeout: 15_000 });
-
-		const submitApprovalButton = await soundCloudWindow.waitForSelector(
-			Selectors.SC_SUBMIT_APPROVAL_BUTTON,
-		);
-		if (!submitApprovalButton) {
-			throw new Error('Submit approval button not found');
-		}
-
-		await soundCloudWindow.click(Selectors.SC_SUBMIT_APPROVAL_BUTTON);
-		// wait for window to close
-		while (!soundCloudWindow.isClosed()) {
-			await timeout(100);
-		}
-	}
-
-	private async handleInstagramSlide(page: Page) {
-		// check if #skipper_ig exists, if yes we can just click it to skip this step
-		const skipperIg = await page.evaluate((skipperIgSelector) => {
-			return document.querySelector(skipperIgSelector) !== null;
-		}, Selectors.IG_SKIPPER_BUTTON);
-		if (skipperIg) {
-			console.log('Instagram gate can be skipped for this post. Skipping...');
-			await page.click(Selectors.IG_SKIPPER_BUTTON);
 			return;
 		}
-
-		await this.handleSocialButtonsSlide(page, 'Instagram', {
-			statusButtonSelector: Selectors.IG_STATUS_BUTTON,
-			undoneButtonSelector: Selectors.IG_STATUS_UNDONE_BUTTON,
-			nextButtonSelector: Selectors.IG_NEXT_BUTTON,
-			windowUrlPart: 'instagram.com',
-		});
-	}
-
-	private async handleTiktokSlide(page: Page) {
-		// check if #skipper_tk exists, if yes we can just click it to skip this step
-		const skipperTk = await page.evaluate((skipperTkSelector) => {
-			return document.querySelector(skipperTkSelector) !== null;
-		}, Selectors.TK_SKIPPER_BUTTON);
-		if (skipperTk) {
-			console.log('TikTok gate can be skipped for this post. Skipping...');
-			await page.click(Selectors.TK_SKIPPER_BUTTON);
-			return;
-		}
-
-		await this.handleSocialButtonsSlide(page, 'TikTok', {
-			statusButtonSelector: Selectors.TK_STATUS_BUTTON,
-			undoneButtonSelector: Selectors.TK_STATUS_UNDONE_BUTTON,
-			nextButtonSelector: Selectors.TK_NEXT_BUTTON,
-			windowUrlPart: 'tiktok.com',
-		});
-	}
-
-	private async handleYoutubeSlide(page: Page) {
-		// check if #skipper_yt exists, if yes we can just click it to skip this step
-		const skipperYt = await page.evaluate((skipperYtSelector) => {
-			return document.querySelector(skipperYtSelector) !== null;
-		}, Selectors.YT_SKIPPER_BUTTON);
-		if (skipperYt) {
-			console.log('YouTube gate can be skipped for this post. Skipping...');
-			await page.click(Selectors.YT_SKIPPER_BUTTON);
-			return;
-		}
-
-		await this.handleSocialButtonsSlide(page, 'YouTube', {
-			statusButtonSelector: Selectors.YT_STATUS_BUTTON,
-			undoneButtonSelector: Selectors.YT_STATUS_UNDONE_BUTTON,
-			nextButtonSelector: Selectors.YT_NEXT_BUTTON,
-			windowUrlPart: 'youtube.com',
-		});
-	}
-
-	private async handleFacebookSlide(page: Page) {
-		await page.waitForSelector(Selectors.FB_NEXT_BUTTON);
-		await page.click(Selectors.FB_NEXT_BUTTON);
-	}
-
-	private async handleSpotifySlide(page: Page) {
-		// check if #skipper_sp exists, if yes we can just click it to skip this step
-		const skipperSp = await page.evaluate((skipperSpSelector) => {
-			return document.querySelector(skipperSpSelector) !== null;
-		}, Selectors.SP_SKIPPER_BUTTON);
-		if (skipperSp) {
-			console.log('Spotify gate can be skipped for this post. Skipping...');
-			await page.click(Selectors.SP_SKIPPER_BUTTON);
-			return;
-		}
-
-		if (!this.spotifyCookiesExists) {
-			throw new Error(
-				'Spotify cookies are required to handle the Spotify gate. Please export your Spotify cookies and save them to spotify-cookies.json in the project root.',
-			);
-		}
-
-		await page.waitForSelector(Selectors.SP_LOGIN_BUTTON);
-
-		// if there is an optInSectionSpotify, we should click the anchor with class .optOutOption first
-		const optInSectionSpotify = await page.$(Selectors.SP_OPT_IN_SECTION);
-		if (optInSectionSpotify) {
-			const optOutOption = await optInSectionSpotify.$(
-				Selectors.SP_OPT_OUT_OPTION,
-			);
-			if (optOutOption) {
-				await optOutOption.click();
-			}
-		}
-
-		// then we can click the login button
-		await page.click(Selectors.SP_LOGIN_BUTTON);
-		// TODO: I think this timeout is the only thing that keeps it working when spotify is already authorized,
-		// TODO: Maybe we should also wait for a window to open in parallel to this and it being closed again?
-		await timeout(1_500);
-
-		// we might need to click the accept button in the new window if the app is not authorized yet
-		const browserWindows = await this.browser.pages(true);
-		const spotifyWindow = browserWindows.find((window) =>
-			window.url().includes('spotify.com'),
+		await Promise.all(
+			Array.from(this.pages, async (page) => {
+				if (!page.isClosed()) {
+					await page.close();
+				}
+			}),
 		);
-		// TODO: we should also try to deauthorize hypeddit from spotify and see if this code still works
-		if (spotifyWindow) {
-			await spotifyWindow.bringToFront();
-			await spotifyWindow.setViewport({ width: 1920, height: 1080 });
-			await spotifyWindow.waitForNetworkIdle({ timeout: 15_000 });
-
-			await spotifyWindow.waitForSelector(Selectors.SP_AUTH_ACCEPT_BUTTON, {
-				visible: true,
-			});
-
-			// then we need to click the login button in the new window
-			await spotifyWindow.click(Selectors.SP_AUTH_ACCEPT_BUTTON);
-
-			// wait for window to close
-			while (!spotifyWindow.isClosed()) {
-				await timeout(100);
-			}
-		}
+		this.pages.clear();
 	}
 
 	private async handleDownloadSlide(page: Page) {
@@ -661,8 +607,25 @@ export class HypedditDownloader {
 		// track download state
 		let downloadGuid: string | null = null;
 		let downloadCompleteResolve: (value: string) => void;
-		const downloadCompletePromise = new Promise<string>((resolve) => {
+		const { downloadMs } = getTiming();
+		let downloadTimer: Timer | undefined;
+		const downloadCompletePromise = new Promise<string>((resolve, reject) => {
 			downloadCompleteResolve = resolve;
+			downloadTimer = setTimeout(
+				() =>
+					reject(
+						new Error(
+							`Download did not complete within ${formatDuration(downloadMs)}`,
+						),
+					),
+				downloadMs,
+			);
+			// the browser is closed on abort, so no completion event will follow
+			this.abortSignal?.addEventListener(
+				'abort',
+				() => reject(this.abortSignal?.reason),
+				{ once: true },
+			);
 		});
 
 		// create progress bar (for CLI)
@@ -734,21 +697,26 @@ export class HypedditDownloader {
 		});
 
 		console.log('Waiting for download start event...');
+		const { downloadStartMs } = getTiming();
 		setTimeout(async () => {
 			if (!downloadGuid) {
-				// click button again when download has not started after 10 seconds
+				// click button again when the download has not started yet
 				console.log(
-					'Download not started after 10 seconds, clicking button again...',
+					`Download not started after ${formatDuration(downloadStartMs)}, clicking button again...`,
 				);
 				await page.click(Selectors.DW_DOWNLOAD_BUTTON);
 			}
-		}, 10_000);
+		}, downloadStartMs);
 
 		// click the download button and wait for download to complete
-		await Promise.all([
-			page.click(Selectors.DW_DOWNLOAD_BUTTON),
-			downloadCompletePromise,
-		]);
+		try {
+			await Promise.all([
+				page.click(Selectors.DW_DOWNLOAD_BUTTON),
+				downloadCompletePromise,
+			]);
+		} finally {
+			clearTimeout(downloadTimer);
+		}
 
 		console.log('Download complete, detaching CDP session...');
 
@@ -760,10 +728,7 @@ export class HypedditDownloader {
 		if (!candidates.length)
 			throw new Error('No preferred gate could be selected from OR gate group');
 		return candidates.reduce((best, curr) =>
-			(this.getGateDefinition(curr)?.difficulty ?? Number.MAX_SAFE_INTEGER) <
-			(this.getGateDefinition(best)?.difficulty ?? Number.MAX_SAFE_INTEGER)
-				? curr
-				: best,
+			getGateDifficulty(curr) < getGateDifficulty(best) ? curr : best,
 		);
 	}
 
@@ -807,7 +772,7 @@ export class HypedditDownloader {
 					);
 				});
 			},
-			{ timeout: 30_000 },
+			{ timeout: getTiming().elementMs },
 			candidates,
 		);
 
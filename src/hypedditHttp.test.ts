@@ -0,0 +1,442 @@
+import { afterEach, describe, expect, spyOn, test } from 'bun:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+	type FakeHypeddit,
+	type FakeHypedditOptions,
+	FIXTURE_FILENAME,
+	SPOTIFY_SESSION,
+	startFakeHypeddit,
+} from './fixtures/fakeHypeddit';
+import { type GateHandler, getGate, registerGate } from './gateRegistry';
+import { HypedditHttpDownloader } from './hypedditHttp';
+import { configureRetries } from './retry';
+import type { HypedditConfig, LocalCookieData } from './types';
+import { removeDownload } from './utils';
+
+const config: HypedditConfig = {
+	name: 'Fan',
+	email: 'fan@example.com',
+	comment: '',
+	headless: true,
+};
+
+let hypeddit: FakeHypeddit | undefined;
+let cookiesDir: string | undefined;
+
+// never touches the cookie files of the working directory
+async function cookiesPath(
+	name: string,
+	cookies?: LocalCookieData[],
+): Promise<string> {
+	cookiesDir ??= await mkdtemp(join(tmpdir(), 'hypeddit-test-'));
+	const path = join(cookiesDir, name);
+	if (cookies) {
+		await Bun.write(path, JSON.stringify(cookies));
+	}
+	return path;
+}
+
+async function createDownloader(
+	hypeddit: FakeHypeddit,
+	spotifyCookies?: LocalCookieData[],
+	signal?: AbortSignal,
+): Promise<HypedditHttpDownloader> {
+	return new HypedditHttpDownloader(config, undefined, signal, {
+		origin: hypeddit.origin,
+		spotifyCookiesPath: await cookiesPath(
+			'spotify-cookies.json',
+			spotifyCookies,
+		),
+		cookiesPath: await cookiesPath('hypeddit-cookies.json'),
+	});
+}
+
+function spotifySession(hypeddit: FakeHypeddit): LocalCookieData {
+	return {
+		name: 'sp_dc',
+		value: SPOTIFY_SESSION,
+		domain: new URL(hypeddit.spotifyOrigin).hostname,
+		path: '/',
+	};
+}
+
+async function start(
+	options?: FakeHypedditOptions,
+	spotifyCookies?: (hypeddit: FakeHypeddit) => LocalCookieData[],
+): Promise<{
+	hypeddit: FakeHypeddit;
+	downloader: HypedditHttpDownloader;
+}> {
+	hypeddit = startFakeHypeddit(options);
+	return {
+		hypeddit,
+		downloader: await createDownloader(hypeddit, spotifyCookies?.(hypeddit)),
+	};
+}
+
+async function readDownload(filename: string): Promise<Uint8Array> {
+	return new Uint8Array(
+		await Bun.file(join('./downloads', filename)).arrayBuffer(),
+	);
+}
+
+afterEach(async () => {
+	hypeddit?.stop();
+	hypeddit = undefined;
+	await removeDownload(FIXTURE_FILENAME);
+	await removeDownload('download');
+	if (cookiesDir) {
+		await rm(cookiesDir, { recursive: true, force: true });
+		cookiesDir = undefined;
+	}
+});
+
+describe('HypedditHttpDownloader.tryDownload', () => {
+	test('downloads a client-side gate without a browser', async () => {
+		const { hypeddit, downloader } = await start();
+
+		const filename = await downloader.tryDownload(hypeddit.gateUrl);
+
+		expect(filename).toBe(FIXTURE_FILENAME);
+		expect(await readDownload(FIXTURE_FILENAME)).toEqual(hypeddit.file);
+		expect(
+			await Bun.file(join('./downloads', `${FIXTURE_FILENAME}.part`)).exists(),
+		).toBe(false);
+	});
+
+	test('submits the gate forms like the browser would', async () => {
+		const { hypeddit, downloader } = await start();
+
+		await downloader.tryDownload(hypeddit.gateUrl);
+
+		const [visit] = hypeddit.requestsTo('/gate/ge');
+		expect(visit?.form.get('vt')).toBe('gvt-fixture');
+		expect(visit?.form.get('uid')).toBe('uid-fixture');
+
+		const [email] = hypeddit.requestsTo('/verifyEmailAddress');
+		expect(email?.form.get('validateEmailAddress')).toBe(config.email);
+		expect(email?.form.get('email_name')).toBe(config.name);
+		expect(email?.form.get('fan_gate_id')).toBe('4242');
+
+		const [download] = hypeddit.requestsTo('/gate/download/ul');
+		expect(download?.form.get('steps')).toBe('email,sc');
+		expect(download?.form.getAll('skip_gate_steps[]')).toEqual(['sc']);
+		expect(download?.form.get('external_id')).toBe('external-fixture');
+		expect(download?.form.get('wrndk')).toBe('wrndk-fixture');
+		expect(download?.headers.get('x-csrf-token')).toBe('csrf-token-fixture');
+		expect(download?.headers.get('cookie')).toBe(
+			'hypeddit_session=session-fixture',
+		);
+		expect(download?.headers.get('referer')).toBe(hypeddit.gateUrl);
+	});
+
+	test('keeps the Hypeddit cookies between runs', async () => {
+		const { hypeddit, downloader } = await start();
+		await Bun.write(
+			await cookiesPath('hypeddit-cookies.json'),
+			JSON.stringify([
+				{ name: 'cf_clearance', value: 'clearance', domain: 'localhost' },
+			]),
+		);
+
+		await downloader.tryDownload(hypeddit.gateUrl);
+		const [visit] = hypeddit.requestsTo('/artist/track');
+		expect(visit?.headers.get('cookie')).toBe('cf_clearance=clearance');
+
+		await removeDownload(FIXTURE_FILENAME);
+		await (await createDownloader(hypeddit)).tryDownload(hypeddit.gateUrl);
+		const [, revisit] = hypeddit.requestsTo('/artist/track');
+		expect(revisit?.headers.get('cookie')).toBe(
+			'cf_clearance=clearance; hypeddit_session=session-fixture',
+		);
+		const saved = await Bun.file(
+			await cookiesPath('hypeddit-cookies.json'),
+		).json();
+		expect(saved).toContainEqual(
+			expect.objectContaining({
+				name: 'hypeddit_session',
+				domain: 'localhost',
+				path: '/',
+				httpOnly: true,
+			}),
+		);
+	});
+
+	test('follows smart-link pages to the gate', async () => {
+		const { hypeddit, downloader } = await start();
+
+		const filename = await downloader.tryDownload(hypeddit.smartLinkUrl);
+
+		expect(filename).toBe(FIXTURE_FILENAME);
+		expect(hypeddit.requestsTo('/artist/track')).toHaveLength(1);
+		expect(hypeddit.requestsTo('/gate/ge')[0]?.headers.get('referer')).toBe(
+			hypeddit.gateUrl,
+		);
+	});
+
+	test('names the file from the signed URL without content-disposition', async () => {
+		const { hypeddit, downloader } = await start({ contentDisposition: null });
+
+		expect(await downloader.tryDownload(hypeddit.gateUrl)).toBe(
+			FIXTURE_FILENAME,
+		);
+	});
+
+	test('decodes RFC 5987 file names', async () => {
+		const { hypeddit, downloader } = await start({
+			contentDisposition: `attachment; filename*=UTF-8''${encodeURIComponent('Artïst - Träck.wav')}`,
+		});
+
+		const filename = await downloader.tryDownload(hypeddit.gateUrl);
+
+		expect(filename).toBe('Artïst - Träck.wav');
+		await removeDownload('Artïst - Träck.wav');
+	});
+
+	test('keeps only the file name of the content-disposition', async () => {
+		const { hypeddit, downloader } = await start({
+			contentDisposition: 'attachment; filename="../../escape.wav"',
+		});
+
+		const filename = await downloader.tryDownload(hypeddit.gateUrl);
+
+		expect(filename).toBe('escape.wav');
+		expect(await readDownload('escape.wav')).toEqual(hypeddit.file);
+		await removeDownload('escape.wav');
+	});
+
+	test('keeps a finished file of an earlier run when the download fails', async () => {
+		await Bun.write(join('./downloads', FIXTURE_FILENAME), 'earlier run');
+		const { hypeddit, downloader } = await start({ dropAfter: 10_000 });
+		const log = spyOn(console, 'log').mockImplementation(() => {});
+		configureRetries({ download: 0 });
+
+		try {
+			expect(await downloader.tryDownload(hypeddit.gateUrl)).toBeNull();
+		} finally {
+			configureRetries({});
+			log.mockRestore();
+		}
+
+		expect(await Bun.file(join('./downloads', FIXTURE_FILENAME)).text()).toBe(
+			'earlier run',
+		);
+		expect(
+			await Bun.file(join('./downloads', `${FIXTURE_FILENAME}.part`)).exists(),
+		).toBe(false);
+	});
+
+	test('resumes a dropped download with a Range request', async () => {
+		const { hypeddit, downloader } = await start({ dropAfter: 10_000 });
+
+		const filename = await downloader.tryDownload(hypeddit.gateUrl);
+
+		expect(filename).toBe(FIXTURE_FILENAME);
+		expect(await readDownload(FIXTURE_FILENAME)).toEqual(hypeddit.file);
+		const fileRequests = hypeddit.requestsTo('/files/download');
+		expect(fileRequests).toHaveLength(2);
+		expect(fileRequests[1]?.headers.get('range')).toBe('bytes=10000-');
+	});
+
+	test('restarts a dropped download when Range is not supported', async () => {
+		const { hypeddit, downloader } = await start({
+			dropAfter: 10_000,
+			supportsRange: false,
+		});
+
+		await downloader.tryDownload(hypeddit.gateUrl);
+
+		expect(await readDownload(FIXTURE_FILENAME)).toEqual(hypeddit.file);
+		expect(hypeddit.requestsTo('/files/download')).toHaveLength(2);
+	});
+
+	test('falls back to the browser for Spotify gates without cookies', async () => {
+		const { hypeddit, downloader } = await start({ gate: 'gate-spotify.html' });
+
+		expect(await downloader.tryDownload(hypeddit.gateUrl)).toBeNull();
+		expect(hypeddit.requestsTo('/gate/ge')).toHaveLength(0);
+	});
+
+	test('authorizes Spotify gates with the stored Spotify session', async () => {
+		const { hypeddit, downloader } = await start(
+			{ gate: 'gate-spotify.html' },
+			(hypeddit) => [spotifySession(hypeddit)],
+		);
+
+		const filename = await downloader.tryDownload(hypeddit.gateUrl);
+
+		expect(filename).toBe(FIXTURE_FILENAME);
+		expect(hypeddit.spotifyAuthorized()).toBe(true);
+		const [download] = hypeddit.requestsTo('/gate/download/ul');
+		expect(download?.form.get('steps')).toBe('email,sp');
+		expect(download?.form.getAll('skip_gate_steps[]')).toEqual([]);
+	});
+
+	test('stops when Hypeddit was never authorized on Spotify', async () => {
+		const { hypeddit, downloader } = await start(
+			{ gate: 'gate-spotify.html', spotifyConsent: false },
+			(hypeddit) => [spotifySession(hypeddit)],
+		);
+		const log = spyOn(console, 'log');
+
+		expect(await downloader.tryDownload(hypeddit.gateUrl)).toBeNull();
+		expect(hypeddit.requestsTo('/gate/download/ul')).toHaveLength(0);
+		expect(log.mock.calls.flat().join('\n')).toContain(
+			'Hypeddit has not been authorized on your Spotify account yet',
+		);
+		log.mockRestore();
+	});
+
+	test('reports an expired Spotify session', async () => {
+		const { hypeddit, downloader } = await start(
+			{ gate: 'gate-spotify.html' },
+			(hypeddit) => [
+				{ ...spotifySession(hypeddit), expirationDate: 1_000_000_000 },
+			],
+		);
+		const log = spyOn(console, 'log');
+
+		expect(await downloader.tryDownload(hypeddit.gateUrl)).toBeNull();
+		expect(log.mock.calls.flat().join('\n')).toContain('Spotify session in');
+		log.mockRestore();
+	});
+
+	test('uses the browserless handlers of registered gates', async () => {
+		const builtin = getGate('sc') as GateHandler;
+		const { hypeddit, downloader } = await start();
+		registerGate({
+			...builtin,
+			label: 'SoundCloud (verified)',
+			browserless: {
+				handle: async ({ post }) => {
+					await post('/gate/sc/verify', { action: 'follow' });
+					return true;
+				},
+			},
+		});
+
+		try {
+			await downloader.tryDownload(hypeddit.gateUrl);
+			const inspection = await downloader.inspect(hypeddit.gateUrl);
+			expect(inspection.steps.map((step) => step.label)).toContain(
+				'SoundCloud (verified)',
+			);
+		} finally {
+			registerGate(builtin);
+		}
+
+		const [verify] = hypeddit.requestsTo('/gate/sc/verify');
+		expect(verify?.form.get('action')).toBe('follow');
+		const [download] = hypeddit.requestsTo('/gate/download/ul');
+		expect(download?.form.getAll('skip_gate_steps[]')).toEqual([]);
+	});
+
+	test('falls back to the browser for OR gates', async () => {
+		const { hypeddit, downloader } = await start({ gate: 'gate-or.html' });
+
+		expect(await downloader.tryDownload(hypeddit.gateUrl)).toBeNull();
+		expect(hypeddit.requestsTo('/gate/ge')).toHaveLength(0);
+	});
+
+	test('falls back to the browser when the page has no gate data', async () => {
+		const { hypeddit, downloader } = await start();
+
+		expect(await downloader.tryDownload(hypeddit.removedUrl)).toBeNull();
+		expect(hypeddit.requestsTo('/gate/ge')).toHaveLength(0);
+	});
+
+	test('falls back to the browser when the download is not granted', async () => {
+		const { hypeddit, downloader } = await start({ grantDownload: false });
+
+		expect(await downloader.tryDownload(hypeddit.gateUrl)).toBeNull();
+		expect(hypeddit.requestsTo('/files/download')).toHaveLength(0);
+	});
+
+	test('does not fall back once the job is cancelled', async () => {
+		hypeddit = startFakeHypeddit();
+		const controller = new AbortController();
+		controller.abort();
+		const downloader = await createDownloader(
+			hypeddit,
+			undefined,
+			controller.signal,
+		);
+
+		await expect(downloader.tryDownload(hypeddit.gateUrl)).rejects.toThrow();
+	});
+});
+
+describe('HypedditHttpDownloader.inspect', () => {
+	test('reports a gate the browserless path can handle', async () => {
+		const { hypeddit, downloader } = await start();
+
+		const inspection = await downloader.inspect(hypeddit.smartLinkUrl);
+
+		expect(inspection).toMatchObject({
+			finalUrl: hypeddit.gateUrl,
+			smartLink: true,
+			parsed: true,
+			skippable: false,
+			needsBrowser: false,
+			needsSpotifyCookies: false,
+		});
+		expect(inspection.steps.map((step) => step.label)).toEqual([
+			'Email',
+			'SoundCloud',
+		]);
+		expect(hypeddit.requestsTo('/gate/ge')).toHaveLength(0);
+	});
+
+	test('reports Spotify gates that need cookies', async () => {
+		const { hypeddit, downloader } = await start({ gate: 'gate-spotify.html' });
+
+		expect(await downloader.inspect(hypeddit.gateUrl)).toMatchObject({
+			needsBrowser: true,
+			needsSpotifyCookies: true,
+			spotifyCookiesFound: false,
+		});
+	});
+
+	test('reports Spotify gates as browserless once cookies are stored', async () => {
+		const { hypeddit, downloader } = await start(
+			{ gate: 'gate-spotify.html' },
+			(hypeddit) => [spotifySession(hypeddit)],
+		);
+
+		expect(await downloader.inspect(hypeddit.gateUrl)).toMatchObject({
+			needsBrowser: false,
+			spotifyCookiesFound: true,
+		});
+		expect(hypeddit.spotifyAuthorized()).toBe(false);
+	});
+
+	test('reports the choices of OR gates', async () => {
+		const { hypeddit, downloader } = await start({ gate: 'gate-or.html' });
+
+		const inspection = await downloader.inspect(hypeddit.gateUrl);
+
+		expect(inspection.steps[1]).toEqual({
+			step: 'ig|sp',
+			label: 'Instagram or Spotify',
+			choices: ['ig', 'sp'],
+			browserless: false,
+		});
+		expect(inspection.skippable).toBe(true);
+		expect(inspection.needsSpotifyCookies).toBe(false);
+	});
+
+	test('reports pages without gate data', async () => {
+		const { hypeddit, downloader } = await start();
+
+		const inspection = await downloader.inspect(hypeddit.removedUrl);
+
+		expect(inspection).toMatchObject({
+			parsed: false,
+			steps: [],
+			needsBrowser: true,
+		});
+		expect(inspection.diagnostics).toContain('hidden input #gvt not found');
+	});
+});
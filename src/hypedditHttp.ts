@@ -1,93 +1,67 @@
-import { join } from 'node:path';
+import { mkdir, open, rename, unlink } from 'node:fs/promises';
+import { basename, join } from 'node:path';
+import './builtinGates';
+import { CookieJar, openCookieJar } from './cookieJar';
+import {
+	type GateData,
+	type GatePage,
+	parseGateData,
+	readGatePage,
+} from './gatePage';
+import {
+	type BrowserlessGateContext,
+	canHandleBrowserless,
+	getGate,
+	getGateLabel,
+} from './gateRegistry';
 import type { ProgressCallback } from './hypeddit';
-import type { HypedditConfig } from './types';
-
-// Steps whose Hypeddit "gate" is purely client-side: clicking through them only
-// toggles CSS classes and, on the download request, declares the step as skipped
-// via skip_gate_steps[]. The server performs no verification for these, so they
-// can be satisfied without a browser. Steps that are actually verified server-side
-// (e.g. Spotify `sp`, which needs a real OAuth authorization) are intentionally
-// excluded so the caller falls back to the browser flow.
-const BROWSERLESS_STEPS = new Set(['email', 'sc', 'ig', 'tk', 'yt', 'fb']);
+import { sanitizePathSegment } from './outputPath';
+import { fetchProxy } from './proxy';
+import {
+	fetchWithRetry,
+	formatRetry,
+	HttpStatusError,
+	parseRetryAfter,
+	RetryableError,
+	type RetryInfo,
+	type RetryOptions,
+	withRetry,
+} from './retry';
+import type { HypedditConfig, JobProgress, JobStage } from './types';
+
+const SPOTIFY_COOKIES_PATH = 'spotify-cookies.json';
+// Hypeddit cookies of the browserless requests, kept between runs
+const HYPEDDIT_COOKIES_PATH = 'hypeddit-cookies.json';
+// authorize → (login) → Hypeddit callback takes a handful of hops
+const MAX_REDIRECTS = 10;
 
 const HYPEDDIT_ORIGIN = 'https://hypeddit.com';
 const USER_AGENT =
 	'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36';
 
-interface GateData {
-	csrfToken: string;
-	gvt: string;
-	uid: string;
-	steps: string[];
-	wrndk: string;
-	fanGateId: string;
-	isSkippable: string;
-	externalId: string;
-	duration: number;
-}
-
-function matchHiddenInput(html: string, id: string): string | null {
-	const patterns = [
-		new RegExp(`id=["']${id}["'][^>]*value=["']([^"']*)["']`),
-		new RegExp(`value=["']([^"']*)["'][^>]*id=["']${id}["']`),
-	];
-	for (const pattern of patterns) {
-		const match = html.match(pattern);
-		if (match?.[1] !== undefined) {
-			return match[1];
-		}
-	}
-	return null;
+export interface GateStepInspection {
+	// raw step name, e.g. `sc`, or `sc|sp` for an OR gate
+	step: string;
+	label: string;
+	// steps the fan can choose from; a single entry for regular gates
+	choices: string[];
+	browserless: boolean;
 }
 
-function parseGateData(html: string): GateData | null {
-	const csrfToken = html.match(
-		/name=["']csrf-token["'][^>]*content=["']([^"']+)["']/,
-	)?.[1];
-	const gvt = matchHiddenInput(html, 'gvt');
-	const uid = matchHiddenInput(html, 'current_download_file_listner');
-	const rawSteps = matchHiddenInput(html, 'nwSteps');
-	const wrndk = matchHiddenInput(html, 'wrndk');
-	const fanGateId = matchHiddenInput(html, 'fan_gate_id');
-
-	if (!csrfToken || !gvt || !uid || !rawSteps || !wrndk || !fanGateId) {
-		return null;
-	}
-
-	const externalId =
-		html.match(/externID["']?\s*:\s*["']([^"']+)["']/)?.[1] ?? '';
-	const durationRaw = Number(matchHiddenInput(html, 'duration'));
-	const duration =
-		Number.isFinite(durationRaw) && durationRaw > 0
-			? durationRaw
-			: 3 * 60 * 1000;
-
-	return {
-		csrfToken,
-		gvt,
-		uid,
-		steps: rawSteps.split(',').filter(Boolean),
-		wrndk,
-		fanGateId,
-		isSkippable: matchHiddenInput(html, 'is_skippable') ?? '0',
-		externalId,
-		duration,
-	};
-}
-
-// Smart-link selection pages list multiple platforms; follow the Hypeddit anchor.
-function findSmartLinkHypedditUrl(html: string): string | null {
-	const anchor = html.match(
-		/<a[^>]*data-type=["']hypeddit["'][^>]*href=["']([^"']+)["']/,
-	)?.[1];
-	if (anchor) {
-		return anchor;
-	}
-	return (
-		html.match(
-			/<a[^>]*href=["']([^"']+)["'][^>]*data-type=["']hypeddit["']/,
-		)?.[1] ?? null
-	);
+export interface GateInspection {
+	url: string;
+	// gate URL after redirects and smart-link selection pages
+	finalUrl: string;
+	smartLink: boolean;
+	// false when the page has no gate data the browserless path can read
+	parsed: boolean;
+	skippable: boolean;
+	steps: GateStepInspection[];
+	needsBrowser: boolean;
+	needsSpotifyCookies: boolean;
+	spotifyCookiesFound: boolean;
+	// fields of the gate page that could not be read or fell back to a default
+	diagnostics: string[];
 }
 
 function filenameFromContentDisposition(value: string | null): string | null {
@@ -102,33 +76,94 @@ function filenameFromContentDisposition(value: string | null): string | null {
 	return plain ? plain.trim() : null;
 }
 
+function formatMegabytes(bytes: number): string {
+	return (bytes / 1024 / 1024).toFixed(1);
+}
+
+export interface HypedditHttpOptions {
+	// base URL of the form endpoints, replaced by a local fake server in tests
+	origin?: string;
+	spotifyCookiesPath?: string;
+	cookiesPath?: string;
+}
+
 export class HypedditHttpDownloader {
 	private readonly config: HypedditConfig;
 	private readonly progressCallback: ProgressCallback | null;
-	private cookies = new Map<string, string>();
+	private readonly signal: AbortSignal | undefined;
+	private readonly origin: string;
+	private readonly spotifyCookiesPath: string;
+	private readonly cookiesPath: string;
+	private cookies: Promise<CookieJar> | null = null;
 	private csrfToken = '';
-
-	constructor(config: HypedditConfig, progressCallback?: ProgressCallback) {
+	// last reported progress, reused when a retry is shown
+	private stage: JobStage = 'handling_gates';
+	private percent = 30;
+
+	constructor(
+		config: HypedditConfig,
+		progressCallback?: ProgressCallback,
+		signal?: AbortSignal,
+		{
+			origin = HYPEDDIT_ORIGIN,
+			spotifyCookiesPath = SPOTIFY_COOKIES_PATH,
+			cookiesPath = HYPEDDIT_COOKIES_PATH,
+		}: HypedditHttpOptions = {},
+	) {
 		this.config = config;
 		this.progressCallback = progressCallback ?? null;
+		this.signal = signal;
+		this.origin = origin;
+		this.spotifyCookiesPath = spotifyCookiesPath;
+		this.cookiesPath = cookiesPath;
+	}
+
+	private emitProgress(
+		stage: JobStage,
+		message: string,
+		percent: number,
+		extra?: Partial<JobProgress>,
+	): void {
+		this.stage = stage;
+		this.percent = percent;
+		this.progressCallback?.(stage, message, percent, extra);
+	}
+
+	private retryOptions(
+		budget: RetryOptions['budget'],
+		label: string,
+	): RetryOptions {
+		return {
+			budget,
+			label,
+			signal: this.signal,
+			onRetry: (info: RetryInfo) =>
+				this.progressCallback?.(this.stage, formatRetry(info), this.percent),
+		};
 	}
 
 	// Attempts to download the file without a browser. Returns the saved filename,
 	// or null if the gate needs real verification and the browser flow must be used.
 	async tryDownload(url: string): Promise<string | null> {
 		try {
-			const { html, finalUrl } = await this.fetchGatePage(url);
-			const gate = parseGateData(html);
+			const { page, finalUrl } = await this.fetchGatePage(url);
+			const { gate, errors, warnings } = parseGateData(page);
+			for (const warning of warnings) {
+				console.log(`Browserless: ${warning}`);
+			}
 			if (!gate) {
 				console.log(
-					'Browserless: could not parse gate data, falling back to browser',
+					`Browserless: could not parse gate data (${errors.join('; ')}), falling back to browser`,
 				);
 				return null;
 			}
 			this.csrfToken = gate.csrfToken;
 
+			const spotifyCookiesFound = await Bun.file(
+				this.spotifyCookiesPath,
+			).exists();
 			const unsupported = gate.steps.filter(
-				(step) => !BROWSERLESS_STEPS.has(step),
+				(step) => !canHandleBrowserless(step, page, spotifyCookiesFound),
 			);
 			if (unsupported.length) {
 				console.log(
@@ -140,7 +175,7 @@ export class HypedditHttpDownloader {
 			console.log(
 				`Browserless: attempting HTTP download for gates [${gate.steps.join(', ')}]`,
 			);
-			this.progressCallback?.(
+			this.emitProgress(
 				'handling_gates',
 				'Handling gates without browser...',
 				40,
@@ -151,17 +186,30 @@ export class HypedditHttpDownloader {
 				uid: gate.uid,
 			});
 
-			if (gate.steps.includes('email')) {
-				await this.post('/verifyEmailAddress', finalUrl, {
-					validateEmailAddress: this.config.email,
-					fan_gate_id: gate.fanGateId,
-					email_name: this.config.name,
-					adcode: '',
-					hypesource: '',
-				});
+			const context: BrowserlessGateContext = {
+				gate,
+				page,
+				gateUrl: finalUrl,
+				config: this.config,
+				post: (path, body) => this.post(path, finalUrl, body),
+				authorizeSpotify: (loginUrl) =>
+					this.authorizeSpotify(loginUrl, finalUrl),
+				emitProgress: (message, percent, extra) =>
+					this.emitProgress('handling_gates', message, percent, extra),
+			};
+			const verifiedSteps: string[] = [];
+			for (const step of gate.steps) {
+				const verified = await getGate(step)?.browserless?.handle?.(context);
+				if (verified) {
+					verifiedSteps.push(step);
+				}
 			}
 
-			const downloadUrl = await this.requestDownload(gate, finalUrl);
+			const downloadUrl = await this.requestDownload(
+				gate,
+				finalUrl,
+				verifiedSteps,
+			);
 			if (!downloadUrl) {
 				console.log(
 					'Browserless: server did not grant download, falling back to browser',
@@ -171,6 +219,10 @@ export class HypedditHttpDownloader {
 
 			return await this.saveFile(downloadUrl);
 		} catch (error) {
+			// a cancelled job must not fall back to the browser
+			if (this.signal?.aborted) {
+				throw error;
+			}
 			console.log(
 				`Browserless attempt failed (${error instanceof Error ? error.message : 'unknown error'}), falling back to browser`,
 			);
@@ -178,9 +230,111 @@ export class HypedditHttpDownloader {
 		}
 	}
 
+	// Reports what the gate requires without submitting anything or downloading
+	async inspect(url: string): Promise<GateInspection> {
+		const { page, finalUrl, smartLink } = await this.fetchGatePage(url);
+		const { gate, errors, warnings } = parseGateData(page);
+		const spotifyCookiesFound = await Bun.file(
+			this.spotifyCookiesPath,
+		).exists();
+		const steps = (gate?.steps ?? []).map((step) => {
+			const choices = step.split('|').filter(Boolean);
+			return {
+				step,
+				label: choices.map((choice) => getGateLabel(choice)).join(' or '),
+				choices,
+				browserless: canHandleBrowserless(step, page, spotifyCookiesFound),
+			};
+		});
+		return {
+			url,
+			finalUrl,
+			smartLink,
+			parsed: gate !== null,
+			skippable: gate?.isSkippable === '1',
+			steps,
+			needsBrowser: !gate || steps.some((step) => !step.browserless),
+			// the browser flow clicks the skip button when the post offers one, and
+			// picks another choice of an OR gate
+			needsSpotifyCookies:
+				!page.spotifySkippable && steps.some((step) => step.step === 'sp'),
+			spotifyCookiesFound,
+			diagnostics: [...errors, ...warnings],
+		};
+	}
+
+	// Drives the popup of the Spotify connect button with plain requests. When
+	// Hypeddit was authorized before, Spotify redirects straight back to the
+	// Hypeddit callback, which marks the step as done for this session. Consent
+	// itself can only be given in the browser.
+	private async authorizeSpotify(
+		loginUrl: string,
+		referer: string,
+	): Promise<void> {
+		const spotifyCookies = await CookieJar.load(this.spotifyCookiesPath);
+		const hypedditHost = new URL(this.origin).host;
+		let url = new URL(loginUrl);
+
+		for (let hop = 0; hop < MAX_REDIRECTS; hop++) {
+			const onHypeddit =
+				url.host === hypedditHost || url.host.endsWith(`.${hypedditHost}`);
+			const cookie = onHypeddit
+				? await this.cookieHeader(url)
+				: spotifyCookies.header(url);
+			const response = await fetchWithRetry(
+				url,
+				{
+					headers: {
+						'User-Agent': USER_AGENT,
+						Referer: referer,
+						Cookie: cookie,
+					},
+					redirect: 'manual',
+				},
+				this.retryOptions('hypeddit', 'Spotify authorization'),
+			);
+			if (onHypeddit) {
+				await this.storeCookies(response, url);
+			} else {
+				spotifyCookies.store(response, url);
+			}
+			await response.body?.cancel();
+
+			const location = response.headers.get('location');
+			if (response.status >= 300 && response.status < 400 && location) {
+				const next = new URL(location, url);
+				if (next.searchParams.get('error')) {
+					throw new Error(
+						`Spotify authorization was rejected (${next.searchParams.get('error')})`,
+					);
+				}
+				url = next;
+				continue;
+			}
+			if (!response.ok) {
+				throw new Error(`Spotify authorization failed: ${response.status}`);
+			}
+			if (onHypeddit) {
+				console.log('Browserless: Spotify authorized');
+				return;
+			}
+			// Spotify answered with a page instead of redirecting back
+			if (/\/login\b/.test(url.pathname)) {
+				throw new Error(
+					`the Spotify session in ${this.spotifyCookiesPath} has expired, please export your Spotify cookies again`,
+				);
+			}
+			throw new Error(
+				'Hypeddit has not been authorized on your Spotify account yet, the browser asks for consent once',
+			);
+		}
+		throw new Error('Spotify authorization redirected too often');
+	}
+
 	private async requestDownload(
 		gate: GateData,
 		referer: string,
+		verifiedSteps: string[],
 	): Promise<string | null> {
 		const body = new URLSearchParams({
 			file: gate.uid,
@@ -201,9 +355,9 @@ export class HypedditHttpDownloader {
 			adcode: '',
 			gvf: '0',
 		});
-		// Every non-email step is a client-side gate; declare it as skipped.
+		// Every step Hypeddit didn't verify is a client-side gate; declare it as skipped.
 		for (const step of gate.steps) {
-			if (step !== 'email') {
+			if (!verifiedSteps.includes(step)) {
 				body.append('skip_gate_steps[]', step);
 			}
 		}
@@ -219,37 +373,85 @@ export class HypedditHttpDownloader {
 		return null;
 	}
 
-	private async saveFile(downloadUrl: string): Promise<string> {
-		this.progressCallback?.('downloading', 'Downloading file...', 76);
-		const response = await fetch(downloadUrl);
+	// Requests the file, or only the bytes from `offset` on when resuming
+	private async fetchFile(downloadUrl: string, offset = 0): Promise<Response> {
+		const headers: Record<string, string> = {
+			// content-length must match the bytes written, so no compression
+			'Accept-Encoding': 'identity',
+		};
+		if (offset > 0) {
+			headers.Range = `bytes=${offset}-`;
+		}
+		const response = await fetch(downloadUrl, {
+			headers,
+			proxy: fetchProxy(),
+			signal: this.signal,
+		});
 		if (!response.ok) {
-			throw new Error(`Download request failed: ${response.status}`);
+			await response.body?.cancel();
+			throw new HttpStatusError(
+				response.status,
+				parseRetryAfter(response.headers.get('retry-after')),
+				`Download request failed: ${response.status}`,
+			);
 		}
+		return response;
+	}
 
-		const filename =
-			filenameFromContentDisposition(
-				response.headers.get('content-disposition'),
-			) ??
-			filenameFromContentDisposition(
-				decodeURIComponent(downloadUrl).match(
-					/response-content-disposition=([^&]+)/,
-				)?.[1] ?? null,
-			) ??
-			'download';
-
+	// Streams into a .part file that is only renamed once the size matches
+	// content-length. A dropped connection is resumed with a Range request.
+	private async saveFile(downloadUrl: string): Promise<string> {
+		this.emitProgress('downloading', 'Downloading file...', 76);
+		let response = await withRetry(
+			() => this.fetchFile(downloadUrl),
+			this.retryOptions('download', 'Download request'),
+		);
+
+		// the name comes from the server, so it must not point outside ./downloads
+		const filename = sanitizePathSegment(
+			basename(
+				filenameFromContentDisposition(
+					response.headers.get('content-disposition'),
+				) ??
+					filenameFromContentDisposition(
+						decodeURIComponent(downloadUrl).match(
+							/response-content-disposition=([^&]+)/,
+						)?.[1] ?? null,
+					) ??
+					'download',
+			),
+		);
+
+		const partPath = join('./downloads', `${filename}.part`);
 		const totalBytes = Number(response.headers.get('content-length')) || 0;
-		const writer = Bun.file(join('./downloads', filename)).writer();
+		await mkdir('./downloads', { recursive: true });
+		const file = await open(partPath, 'w');
 		let receivedBytes = 0;
 		let lastEmit = 0;
 
-		if (response.body) {
+		const writeResponse = async (response: Response) => {
+			if (!response.body) {
+				return;
+			}
 			const reader = response.body.getReader();
 			while (true) {
-				const { done, value: chunk } = await reader.read();
+				let result: Awaited<ReturnType<typeof reader.read>>;
+				try {
+					result = await reader.read();
+				} catch (error) {
+					if (this.signal?.aborted) {
+						throw error;
+					}
+					throw new RetryableError(
+						error instanceof Error ? error.message : String(error),
+					);
+				}
+				const { done, value: chunk } = result;
 				if (done) {
 					break;
 				}
-				writer.write(chunk);
+				// explicit positions, so a restarted download overwrites the file
+				await file.write(chunk, 0, chunk.byteLength, receivedBytes);
 				receivedBytes += chunk.byteLength;
 
 				// throttle progress events to avoid flooding the SSE stream
@@ -257,49 +459,126 @@ export class HypedditHttpDownloader {
 				if (now - lastEmit > 250 && totalBytes > 0) {
 					lastEmit = now;
 					const downloadPercent = receivedBytes / totalBytes;
-					this.progressCallback?.(
+					this.emitProgress(
 						'downloading',
-						`Downloading... ${(receivedBytes / 1024 / 1024).toFixed(1)} / ${(totalBytes / 1024 / 1024).toFixed(1)} MB`,
+						`Downloading... ${formatMegabytes(receivedBytes)} / ${formatMegabytes(totalBytes)} MB`,
 						76 + downloadPercent * 8,
 						{ downloadBytes: receivedBytes, totalBytes, browserless: true },
 					);
 				}
 			}
+			// some servers close the connection early without an error
+			if (totalBytes > 0 && receivedBytes < totalBytes) {
+				throw new RetryableError(
+					`connection closed after ${formatMegabytes(receivedBytes)} of ${formatMegabytes(totalBytes)} MB`,
+				);
+			}
+		};
+
+		// Continues where the previous attempt stopped, or starts over when the
+		// server ignores the Range header
+		const resume = async (): Promise<Response> => {
+			const resumed = await this.fetchFile(downloadUrl, receivedBytes);
+			const rangeStart = Number(
+				resumed.headers.get('content-range')?.match(/bytes (\d+)-/)?.[1],
+			);
+			if (resumed.status === 206 && rangeStart === receivedBytes) {
+				return resumed;
+			}
+			console.log(
+				'Browserless: server does not support resuming, restarting download',
+			);
+			receivedBytes = 0;
+			await file.truncate(0);
+			if (resumed.status !== 206) {
+				// the server sent the whole file instead
+				return resumed;
+			}
+			await resumed.body?.cancel();
+			return await this.fetchFile(downloadUrl);
+		};
+
+		try {
+			await withRetry(
+				async (attempt) => {
+					if (attempt > 1) {
+						response = await resume();
+					}
+					await writeResponse(response);
+				},
+				this.retryOptions('download', 'Download'),
+			);
+
+			if (totalBytes > 0 && receivedBytes !== totalBytes) {
+				throw new Error(
+					`Download size mismatch: expected ${totalBytes} bytes, got ${receivedBytes}`,
+				);
+			}
+		} catch (error) {
+			// don't leave a partial file behind (cancelled or unrecoverable). Only
+			// the .part is ours, a finished file of that name is from another run.
+			await file.close();
+			await unlink(partPath).catch((unlinkError: NodeJS.ErrnoException) => {
+				if (unlinkError.code !== 'ENOENT') {
+					throw unlinkError;
+				}
+			});
+			throw error;
 		}
-		await writer.end();
 
+		await file.close();
+		await rename(partPath, join('./downloads', filename));
 		console.log(`Browserless: downloaded ${filename}`);
-		this.progressCallback?.('downloading', 'Download complete', 85);
+		this.emitProgress('downloading', 'Download complete', 85);
 		return filename;
 	}
 
 	private async fetchGatePage(
 		url: string,
-	): Promise<{ html: string; finalUrl: string }> {
-		this.progressCallback?.('handling_gates', 'Fetching Hypeddit gate...', 30);
-		let finalUrl = url;
-		let html = await this.get(finalUrl);
+	): Promise<{ page: GatePage; finalUrl: string; smartLink: boolean }> {
+		this.emitProgress('handling_gates', 'Fetching Hypeddit gate...', 30);
+		let response = await this.get(url);
+		let page = readGatePage(response.html);
+		let smartLink = false;
 
 		// Follow a smart-link selection page to the actual Hypeddit gate.
-		if (!matchHiddenInput(html, 'gvt')) {
-			const smartLinkUrl = findSmartLinkHypedditUrl(html);
-			if (smartLinkUrl) {
-				console.log(`Browserless: following smart link to ${smartLinkUrl}`);
-				finalUrl = smartLinkUrl;
-				html = await this.get(finalUrl);
-			}
+		if (!page.inputs.has('gvt') && page.smartLinkUrl) {
+			console.log(`Browserless: following smart link to ${page.smartLinkUrl}`);
+			response = await this.get(page.smartLinkUrl);
+			page = readGatePage(response.html);
+			smartLink = true;
 		}
 
-		return { html, finalUrl };
+		return { page, finalUrl: response.url, smartLink };
 	}
 
-	private async get(url: string): Promise<string> {
-		const response = await fetch(url, {
-			headers: { 'User-Agent': USER_AGENT },
-			redirect: 'follow',
-		});
-		this.storeCookies(response);
-		return await response.text();
+	// Returns the page together with its URL after redirects. Redirects are
+	// followed by hand so every hop sends and stores its own cookies.
+	private async get(url: string): Promise<{ html: string; url: string }> {
+		let current = new URL(url);
+		for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+			const response = await fetchWithRetry(
+				current,
+				{
+					headers: {
+						'User-Agent': USER_AGENT,
+						Cookie: await this.cookieHeader(current),
+					},
+					redirect: 'manual',
+				},
+				this.retryOptions('hypeddit', 'Hypeddit page request'),
+			);
+			await this.storeCookies(response, current);
+
+			const location = response.headers.get('location');
+			if (response.status >= 300 && response.status < 400 && location) {
+				await response.body?.cancel();
+				current = new URL(location, current);
+				continue;
+			}
+			return { html: await response.text(), url: current.href };
+		}
+		throw new Error(`${url} redirected too often`);
 	}
 
 	private async post(
@@ -309,38 +588,48 @@ export class HypedditHttpDownloader {
 	): Promise<Response> {
 		const params =
 			body instanceof URLSearchParams ? body : new URLSearchParams(body);
-		const response = await fetch(`${HYPEDDIT_ORIGIN}${path}`, {
-			method: 'POST',
-			headers: {
-				'User-Agent': USER_AGENT,
-				'Content-Type': 'application/x-www-form-urlencoded; charset=UTF-8',
-				Accept: 'application/json, text/javascript, */*; q=0.01',
-				'X-Requested-With': 'XMLHttpRequest',
-				'X-CSRF-TOKEN': this.csrfToken,
-				Origin: HYPEDDIT_ORIGIN,
-				Referer: referer,
-				Cookie: this.cookieHeader(),
+		const url = `${this.origin}${path}`;
+		const response = await fetchWithRetry(
+			url,
+			{
+				method: 'POST',
+				headers: {
+					'User-Agent': USER_AGENT,
+					'Content-Type': 'application/x-www-form-urlencoded; charset=UTF-8',
+					Accept: 'application/json, text/javascript, */*; q=0.01',
+					'X-Requested-With': 'XMLHttpRequest',
+					'X-CSRF-TOKEN': this.csrfToken,
+					Origin: this.origin,
+					Referer: referer,
+					Cookie: await this.cookieHeader(url),
+				},
+				body: params.toString(),
 			},
-			body: params.toString(),
-		});
-		this.storeCookies(response);
+			this.retryOptions('hypeddit', `Hypeddit ${path}`),
+		);
+		await this.storeCookies(response, url);
 		return response;
 	}
 
-	private storeCookies(response: Response): void {
-		const setCookie = response.headers.getSetCookie?.() ?? [];
-		for (const entry of setCookie) {
-			const pair = entry.split(';')[0] ?? '';
-			const eq = pair.indexOf('=');
-			if (eq > 0) {
-				this.cookies.set(pair.slice(0, eq).trim(), pair.slice(eq + 1).trim());
-			}
+	private async cookieJar(): Promise<CookieJar> {
+		this.cookies ??= openCookieJar(this.cookiesPath);
+		return await this.cookies;
+	}
+
+	// Saved right away, so cookies survive a crash or a cancelled job
+	private async storeCookies(
+		response: Response,
+		url: string | URL,
+	): Promise<void> {
+		if (!response.headers.getSetCookie?.().length) {
+			return;
 		}
+		const jar = await this.cookieJar();
+		jar.store(response, url);
+		await jar.save();
 	}
 
-	private cookieHeader(): string {
-		return Array.from(this.cookies.entries())
-			.map(([name, value]) => `${name}=${value}`)
-			.join('; ');
+	private async cookieHeader(url: string | URL): Promise<string> {
+		return (await this.cookieJar()).header(url);
 	}
 }
@@ -1,12 +1,75 @@
 import { confirm, input } from '@inquirer/prompts';
+import type { SoundcloudTrack } from 'soundcloud.ts';
 import { AudioProcessor } from './audioProcessor';
+import {
+	collectSoundcloudUrls,
+	MissingValueError,
+	parseCliArgs,
+	parseStatusArgs,
+	printInspection,
+	printSelectorChecks,
+	printStatus,
+	printSummary,
+	type TrackResult,
+} from './cli';
 import { loadConfig, saveConfig } from './config';
+import { COOKIE_SITES, importCookies, isCookieSite } from './cookieFiles';
 import { HypedditDownloader } from './hypeddit';
 import { HypedditHttpDownloader } from './hypedditHttp';
+import { DEFAULT_OUTPUT_FORMAT, parseOutputFormat } from './outputFormat';
+import {
+	DEFAULT_OUTPUT_OPTIONS,
+	type FileExistsAction,
+	moveToOutput,
+	type OutputOptions,
+} from './outputPath';
+import { configureProxies } from './proxy';
+import { configureRetries } from './retry';
+import { loadSelectorPacks } from './selectors';
 import { SoundcloudClient } from './soundcloud';
-import { getFfmpegBin, getFfprobeBin, validateSoundcloudUrl } from './utils';
+import { getStatus } from './status';
+import { configureTiming } from './timing';
+import {
+	getFfmpegBin,
+	getFfprobeBin,
+	getSoundcloudUrlKind,
+	validateHypedditUrl,
+	validateSoundcloudUrl,
+} from './utils';
 
 try {
+	const [command, ...commandArgs] = process.argv.slice(2);
+	// `import-cookies <site> <path>` reads the cookies of a site from a browser
+	// profile or a cookies.txt file, it needs neither ffmpeg nor the .env values
+	if (command === 'import-cookies') {
+		const [site = '', path] = commandArgs;
+		if (!isCookieSite(site) || !path) {
+			console.error(
+				`Error: usage: import-cookies <${Object.keys(COOKIE_SITES).join('|')}> <browser profile, cookie database or cookies.txt>`,
+			);
+			process.exit(2);
+		}
+		const { file, count } = await importCookies(site, path);
+		console.log(`✓ Saved ${count} cookies to ${file}`);
+		process.exit();
+	}
+
+	const config = await loadConfig();
+	if (config) {
+		configureRetries(config.retries);
+		await configureProxies(config.proxies);
+		configureTiming(config.timing);
+	}
+
+	// `doctor` (or `status`) checks everything a download needs and warns about
+	// logins that expire soon, before a run fails halfway
+	if (command === 'doctor' || command === 'status') {
+		const { warningDays } = parseStatusArgs(commandArgs);
+		const report = await getStatus(warningDays);
+		printStatus(report);
+		process.exit(report.ok ? 0 : 1);
+	}
+
 	const ffmpegBin = await getFfmpegBin();
 	const ffprobeBin = await getFfprobeBin();
 
@@ -22,130 +85,388 @@ try {
 		);
 	}
 
-	const config = await loadConfig();
+	await loadSelectorPacks();
+
+	// `inspect <url>` reports what a gate requires without downloading anything
+	const commandUrl = commandArgs[0] ?? '';
+	if (command === 'inspect' || command === 'validate-selectors') {
+		const validation = validateHypedditUrl(commandUrl);
+		if (validation !== true) {
+			console.error(`Error: ${command}: ${validation}`);
+			process.exit(2);
+		}
+	}
+	if (command === 'inspect') {
+		const inspection = await new HypedditHttpDownloader({
+			name: HYPEDDIT_NAME,
+			email: HYPEDDIT_EMAIL,
+			comment: SC_COMMENT,
+			headless: true,
+		}).inspect(commandUrl);
+		printInspection(inspection);
+		process.exit();
+	}
+	// `validate-selectors <url>` opens a gate in the browser and reports which
+	// selectors of the built-in list and the selector packs match
+	if (command === 'validate-selectors') {
+		const hypedditDownloader = new HypedditDownloader({
+			name: HYPEDDIT_NAME,
+			email: HYPEDDIT_EMAIL,
+			comment: SC_COMMENT,
+			headless: true,
+		});
+		try {
+			await hypedditDownloader.initialize();
+			const checks = await hypedditDownloader.validateSelectors(commandUrl);
+			printSelectorChecks(checks);
+			if (checks.some((check) => check.status === 'missing')) {
+				process.exitCode = 1;
+			}
+		} finally {
+			await hypedditDownloader.close();
+		}
+		process.exit();
+	}
 
-	const soundcloudArg = process.argv[2];
-	const soundcloudArgValidation = soundcloudArg
-		? validateSoundcloudUrl(soundcloudArg)
-		: true;
+	const args = parseCliArgs(process.argv.slice(2));
+	const { nonInteractive } = args;
+	const { urls: soundcloudUrls, invalid } = await collectSoundcloudUrls(args);
+	const outputFormat =
+		args.outputFormat ??
+		(config ? parseOutputFormat(config.outputFormat) : DEFAULT_OUTPUT_FORMAT);
+	const outputOptions: OutputOptions = {
+		directory:
+			args.outputDirectory ??
+			config?.outputDirectory ??
+			DEFAULT_OUTPUT_OPTIONS.directory,
+		template:
+			args.outputTemplate ??
+			config?.outputTemplate ??
+			DEFAULT_OUTPUT_OPTIONS.template,
+		onFileExists:
+			args.onFileExists ??
+			(config?.onFileExists as FileExistsAction | undefined) ??
+			DEFAULT_OUTPUT_OPTIONS.onFileExists,
+	};
 
-	if (soundcloudArg && soundcloudArgValidation !== true) {
-		console.log(soundcloudArgValidation);
+	const results: TrackResult[] = [];
+	for (const { url, reason } of invalid) {
+		console.log(`${reason}: ${url}`);
+		results.push({ soundcloudUrl: url, status: 'skipped', reason });
+	}
+
+	if (!soundcloudUrls.length) {
+		if (nonInteractive) {
+			throw new MissingValueError(
+				'No valid SoundCloud URL given. Pass it as an argument, with --file or via stdin.',
+			);
+		}
+		soundcloudUrls.push(
+			await input({
+				message: 'Enter the URL of the SoundCloud track, playlist or profile',
+				validate: validateSoundcloudUrl,
+			}),
+		);
 	}
-	const soundcloudUrl =
-		soundcloudArg && soundcloudArgValidation === true
-			? soundcloudArg
-			: await input({
-					message: 'Enter the URL of the SoundCloud track',
-					validate: validateSoundcloudUrl,
-				});
 
 	const soundcloudClient = new SoundcloudClient();
-	const track = await soundcloudClient.getTrack(soundcloudUrl);
-
-	// try to find Hypeddit URL from soundcloud track
-	let hypedditUrl: string | null = await soundcloudClient.getHypedditURL(track);
-
-	// if no Hypeddit URL was found, prompt the user for it
-	if (!hypedditUrl) {
-		hypedditUrl = await input({
-			message: 'Enter the URL of the Hypeddit post',
-			validate: (value) => {
-				if (!value?.startsWith('https://hypeddit.com/')) {
-					return 'A valid Hypeddit URL is required';
+	const audioProcessor = new AudioProcessor(ffmpegBin, ffprobeBin);
+
+	// Playlists and profiles are expanded into their tracks up front. Only tracks
+	// with a free-download Hypeddit link are queued, the rest are reported.
+	const queue: Array<{ soundcloudUrl: string; track?: SoundcloudTrack }> = [];
+	let hasCollection = false;
+	for (const soundcloudUrl of soundcloudUrls) {
+		if (getSoundcloudUrlKind(soundcloudUrl) === 'track') {
+			queue.push({ soundcloudUrl });
+			continue;
+		}
+
+		hasCollection = true;
+		try {
+			const tracks = await soundcloudClient.getTracks(soundcloudUrl);
+			const { gated, ungated } =
+				soundcloudClient.partitionByHypedditUrl(tracks);
+			console.log(
+				`${gated.length} of ${tracks.length} tracks have a Hypeddit free download`,
+			);
+			for (const track of ungated) {
+				console.log(`  No Hypeddit gate: ${track.title}`);
+				results.push({
+					soundcloudUrl: track.permalink_url,
+					title: track.title,
+					status: 'skipped',
+					reason: 'No Hypeddit gate',
+				});
+			}
+			for (const { track } of gated) {
+				if (!queue.some((item) => item.soundcloudUrl === track.permalink_url)) {
+					queue.push({ soundcloudUrl: track.permalink_url, track });
 				}
-				return true;
-			},
-		});
+			}
+		} catch (error) {
+			const reason = error instanceof Error ? error.message : String(error);
+			console.error(`✗ Failed to list tracks of ${soundcloudUrl}: ${reason}`);
+			results.push({ soundcloudUrl, status: 'failed', reason });
+		}
 	}
 
-	const headless = config
-		? config.headless
-		: await confirm({
-				message:
-					'Do you want to run the browser in headless mode? (You will not see the browser window but the process will run in the background). If something does not work it is recommended to turn it off.',
-				default: true,
-			});
+	// With more than one track we don't stop to ask for missing Hypeddit URLs;
+	// such tracks are skipped and listed in the summary instead.
+	const batchMode = hasCollection || queue.length + invalid.length > 1;
 
-	const initializeLogins = config
-		? config.initializeLogins
-		: await confirm({
-				message:
-					"Do you want to initialize logins? This is required for the first run. You can skip it for subsequent runs. If you don't use the tool for a while it might be required again.",
-				default: false,
-			});
+	if (batchMode && (args.hypedditUrl || args.metadata.title)) {
+		throw new Error(
+			'--hypeddit-url and --title can only be used with a single SoundCloud track URL',
+		);
+	}
 
-	const hypedditConfig = {
-		name: HYPEDDIT_NAME,
-		email: HYPEDDIT_EMAIL,
-		comment: SC_COMMENT,
-		headless,
+	// Browser options are only asked for once, the first time a track needs them.
+	// Flags win over config.json, which wins over prompting.
+	let browserOptions: { headless: boolean; initializeLogins: boolean } | null =
+		null;
+	const getBrowserOptions = async () => {
+		if (!browserOptions) {
+			const headless =
+				args.headless ??
+				config?.headless ??
+				(nonInteractive
+					? true
+					: await confirm({
+							message:
+								'Do you want to run the browser in headless mode? (You will not see the browser window but the process will run in the background). If something does not work it is recommended to turn it off.',
+							default: true,
+						}));
+
+			const initializeLogins =
+				args.initializeLogins ??
+				config?.initializeLogins ??
+				(nonInteractive
+					? false
+					: await confirm({
+							message:
+								"Do you want to initialize logins? This is required for the first run. You can skip it for subsequent runs. If you don't use the tool for a while it might be required again.",
+							default: false,
+						}));
+
+			browserOptions = { headless, initializeLogins };
+		}
+		return browserOptions;
 	};
 
-	// Fast path: gates that are purely client-side (email + social follow/like/
-	// repost buttons) can be satisfied with plain HTTP, skipping the browser.
-	const httpDownloader = new HypedditHttpDownloader(hypedditConfig);
-	let downloadFilename = await httpDownloader.tryDownload(hypedditUrl);
 	let usedBrowser = false;
 
-	// Fall back to the browser for gates that need real verification (Spotify, ...).
-	if (!downloadFilename) {
-		usedBrowser = true;
-		const hypedditDownloader = new HypedditDownloader(hypedditConfig);
-		await hypedditDownloader.initialize();
-
-		if (initializeLogins) {
-			await hypedditDownloader.prepareLogins();
-			if (config) {
-				await saveConfig({ ...config, initializeLogins: false });
-				console.log('✓ Updated config.json: initializeLogins set to false');
+	// Ctrl+C cancels the current download (closing the browser and removing the
+	// partial file) and stops the run. Pressing it again exits immediately.
+	const abortController = new AbortController();
+	const { signal } = abortController;
+	process.on('SIGINT', () => {
+		if (signal.aborted) {
+			process.exit(130);
+		}
+		console.log('\nCancelling... (press Ctrl+C again to exit immediately)');
+		abortController.abort(new Error('Cancelled by user'));
+	});
+
+	const processTrack = async (
+		soundcloudUrl: string,
+		prefetchedTrack?: SoundcloudTrack,
+	): Promise<TrackResult> => {
+		const track =
+			prefetchedTrack ?? (await soundcloudClient.getTrack(soundcloudUrl));
+		const result: TrackResult = {
+			soundcloudUrl,
+			title: track.title,
+			status: 'failed',
+		};
+
+		// try to find Hypeddit URL from soundcloud track
+		let hypedditUrl: string | null =
+			args.hypedditUrl ?? (await soundcloudClient.getHypedditURL(track));
+
+		if (!hypedditUrl) {
+			if (batchMode) {
+				return {
+					...result,
+					status: 'skipped',
+					reason: 'No Hypeddit URL found',
+				};
+			}
+			if (nonInteractive) {
+				throw new MissingValueError(
+					'No Hypeddit URL found for this track. Pass it with --hypeddit-url.',
+				);
 			}
+			// if no Hypeddit URL was found, prompt the user for it
+			hypedditUrl = await input({
+				message: 'Enter the URL of the Hypeddit post',
+				validate: validateHypedditUrl,
+			});
 		}
 
-		downloadFilename = await hypedditDownloader.downloadAudio(hypedditUrl);
-		await hypedditDownloader.close();
-	}
+		const { headless, initializeLogins } = await getBrowserOptions();
 
-	// The browserless path never touches the SoundCloud account (it only declares
-	// the gates as skipped to Hypeddit), so cleanup is only relevant when the
-	// browser flow actually ran.
-	if (usedBrowser) {
-		if (config) {
-			if (config.cleanupSoundCloudAccount) {
-				await soundcloudClient.cleanup(false);
+		const hypedditConfig = {
+			name: HYPEDDIT_NAME,
+			email: HYPEDDIT_EMAIL,
+			comment: SC_COMMENT,
+			headless,
+		};
+
+		// Fast path: gates that are purely client-side (email + social follow/like/
+		// repost buttons) can be satisfied with plain HTTP, skipping the browser.
+		const httpDownloader = new HypedditHttpDownloader(
+			hypedditConfig,
+			undefined,
+			signal,
+		);
+		let downloadFilename = await httpDownloader.tryDownload(hypedditUrl);
+
+		// Fall back to the browser for gates that need real verification (Spotify, ...).
+		if (!downloadFilename) {
+			usedBrowser = true;
+			const hypedditDownloader = new HypedditDownloader(hypedditConfig);
+			hypedditDownloader.setAbortSignal(signal);
+			try {
+				await hypedditDownloader.initialize();
+
+				if (initializeLogins) {
+					await hypedditDownloader.prepareLogins();
+					// logins only need to be initialized once per run
+					browserOptions = { headless, initializeLogins: false };
+					if (config) {
+						await saveConfig({ ...config, initializeLogins: false });
+						console.log('✓ Updated config.json: initializeLogins set to false');
+					}
+				}
+
+				downloadFilename = await hypedditDownloader.downloadAudio(hypedditUrl);
+			} finally {
+				await hypedditDownloader.close();
 			}
-		} else {
-			await soundcloudClient.cleanup();
 		}
-	}
 
-	if (downloadFilename) {
+		signal.throwIfAborted();
+		if (!downloadFilename) {
+			return { ...result, reason: 'Download failed - no file received' };
+		}
+
 		const artworkUrl = soundcloudClient.getArtworkUrl(track);
 		const artwork = await soundcloudClient.fetchArtwork(artworkUrl);
 
-		const audioProcessor = new AudioProcessor(ffmpegBin, ffprobeBin);
-		const metadata = await audioProcessor.promptForMetadata(
-			track,
-			downloadFilename,
-		);
+		const metadata = nonInteractive
+			? audioProcessor.getMetadata(track, args.metadata)
+			: await audioProcessor.promptForMetadata(
+					track,
+					downloadFilename,
+					args.metadata,
+				);
 
-		const losslessHandling = config
-			? config.deleteLosslessAfterConversion
-				? 'always'
-				: 'never'
-			: 'prompt';
+		const deleteLossless =
+			args.keepLossless !== undefined
+				? !args.keepLossless
+				: config?.deleteLosslessAfterConversion;
+		const losslessHandling =
+			deleteLossless !== undefined
+				? deleteLossless
+					? 'always'
+					: 'never'
+				: nonInteractive
+					? 'always'
+					: 'prompt';
 
-		await audioProcessor.processAudio(
+		const processedPath = await audioProcessor.processAudio(
 			downloadFilename,
 			metadata,
 			artwork,
 			losslessHandling,
+			outputFormat,
+		);
+
+		// an MP3 the user chose not to retag comes back without metadata, but its
+		// path should still be templated from the fetched values
+		const { path: outputPath, skipped } = await moveToOutput(
+			processedPath,
+			Object.keys(metadata).length
+				? metadata
+				: audioProcessor.getMetadata(track, args.metadata),
+			outputOptions,
 		);
+		if (skipped) {
+			return {
+				...result,
+				status: 'skipped',
+				reason: `Output file already exists: ${outputPath}`,
+			};
+		}
+
+		return { ...result, status: 'succeeded', outputPath };
+	};
+
+	for (const [index, { soundcloudUrl, track }] of queue.entries()) {
+		if (signal.aborted) {
+			break;
+		}
+		if (batchMode) {
+			console.log(
+				`\n[${index + 1}/${queue.length}] Processing ${soundcloudUrl}`,
+			);
+		}
+		try {
+			results.push(await processTrack(soundcloudUrl, track));
+		} catch (error) {
+			if (signal.aborted) {
+				console.log('✗ Cancelled');
+				results.push({ soundcloudUrl, status: 'skipped', reason: 'Cancelled' });
+				break;
+			}
+			// a prompt abort should stop the whole run, not just this track
+			if (
+				error instanceof Error &&
+				(error.name === 'ExitPromptError' || error instanceof MissingValueError)
+			) {
+				throw error;
+			}
+			if (!batchMode) {
+				throw error;
+			}
+			const reason = error instanceof Error ? error.message : String(error);
+			console.error(`✗ Failed to process ${soundcloudUrl}: ${reason}`);
+			results.push({ soundcloudUrl, status: 'failed', reason });
+		}
+	}
+
+	// The browserless path never touches the SoundCloud account (it only declares
+	// the gates as skipped to Hypeddit), so cleanup is only relevant when the
+	// browser flow actually ran.
+	if (usedBrowser && !signal.aborted) {
+		const cleanup = args.cleanup ?? config?.cleanupSoundCloudAccount;
+		if (cleanup !== undefined) {
+			if (cleanup) {
+				await soundcloudClient.cleanup(false);
+			}
+		} else if (!nonInteractive) {
+			await soundcloudClient.cleanup();
+		}
+	}
+
+	if (batchMode) {
+		printSummary(results);
+		if (results.some((result) => result.status === 'failed')) {
+			process.exitCode = 1;
+		}
+	}
+	if (signal.aborted) {
+		process.exit(130);
 	}
 } catch (error) {
 	if (error instanceof Error && error.name === 'ExitPromptError') {
 		console.log('\nAborted by user.');
 		process.exit(0);
 	}
+	if (error instanceof MissingValueError) {
+		console.error(`Error: ${error.message}`);
+		process.exit(2);
+	}
 	throw error;
 }
@@ -4,9 +4,12 @@ type ProgressListener = (progress: JobProgress) => void;
 
 /**
  * In-memory job store for single-user Web UI
+ *
+ * Subclasses can persist jobs by overriding the protected persistence hooks,
+ * which are called after every change to the in-memory state.
  */
-class JobStore {
-	private jobs: Map<string, Job> = new Map();
+export class JobStore {
+	protected jobs: Map<string, Job> = new Map();
 	private listeners: Map<string, Set<ProgressListener>> = new Map();
 
 	/**
@@ -28,6 +31,7 @@ class JobStore {
 			},
 			downloadFilename: null,
 			outputFilename: null,
+			outputPath: null,
 			artworkBuffer: null,
 			artworkFileName: null,
 			error: null,
@@ -35,6 +39,8 @@ class JobStore {
 			updatedAt: now,
 		};
 		this.jobs.set(id, job);
+		this.persistJob(job);
+		this.recordProgress(id, job.progress);
 		return job;
 	}
 
@@ -56,9 +62,14 @@ class JobStore {
 		if (!job) return undefined;
 
 		Object.assign(job, updates, { updatedAt: new Date() });
+		this.persistJob(job);
+		if (updates.artworkBuffer !== undefined) {
+			this.persistArtwork(job);
+		}
 
 		// Notify progress listeners if progress was updated
 		if (updates.progress) {
+			this.recordProgress(id, job.progress);
 			this.notifyListeners(id, job.progress);
 		}
 
@@ -85,6 +96,8 @@ class JobStore {
 			...extra,
 		};
 		job.updatedAt = new Date();
+		this.persistProgress(job);
+		this.recordProgress(id, job.progress);
 
 		this.notifyListeners(id, job.progress);
 	}
@@ -103,6 +116,8 @@ class JobStore {
 			percent: 0,
 		};
 		job.updatedAt = new Date();
+		this.persistJob(job);
+		this.recordProgress(id, job.progress);
 
 		this.notifyListeners(id, job.progress);
 	}
@@ -127,7 +142,7 @@ class JobStore {
 	/**
 	 * Notify all listeners for a job
 	 */
-	private notifyListeners(id: string, progress: JobProgress): void {
+	protected notifyListeners(id: string, progress: JobProgress): void {
 		const jobListeners = this.listeners.get(id);
 		if (jobListeners) {
 			for (const listener of jobListeners) {
@@ -145,9 +160,43 @@ class JobStore {
 	 */
 	delete(id: string): boolean {
 		this.listeners.delete(id);
+		this.removeJob(id);
 		return this.jobs.delete(id);
 	}
 
+	/**
+	 * Gets the recorded progress updates of a job, oldest first
+	 */
+	getProgressHistory(_id: string): Array<JobProgress & { at: Date }> {
+		return [];
+	}
+
+	/**
+	 * Persistence hook: a job was created or changed. The artwork is left to
+	 * persistArtwork, so the blob isn't written again on every change.
+	 */
+	protected persistJob(_job: Job): void {}
+
+	/**
+	 * Persistence hook: only the progress of a job changed
+	 */
+	protected persistProgress(_job: Job): void {}
+
+	/**
+	 * Persistence hook: the artwork of a job was set
+	 */
+	protected persistArtwork(_job: Job): void {}
+
+	/**
+	 * Persistence hook: a job was deleted
+	 */
+	protected removeJob(_id: string): void {}
+
+	/**
+	 * Persistence hook: a job reported new progress
+	 */
+	protected recordProgress(_id: string, _progress: JobProgress): void {}
+
 	/**
 	 * Clean up old jobs (older than specified milliseconds)
 	 */
@@ -163,6 +212,3 @@ class JobStore {
 		return deleted;
 	}
 }
-
-// Export singleton instance
-export const jobStore = new JobStore();
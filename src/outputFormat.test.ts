@@ -0,0 +1,137 @@
+import { describe, expect, test } from 'bun:test';
+import {
+	getEncoderArgs,
+	getMetadataArgs,
+	getOutputFormatSpec,
+	isInOutputFormat,
+	type OutputFormat,
+	parseOutputFormat,
+} from './outputFormat';
+import type { Metadata } from './types';
+
+const validSpecs: Array<[string, OutputFormat]> = [
+	['mp3', { codec: 'mp3', bitrate: 320 }],
+	['mp3:v0', { codec: 'mp3', bitrate: 'v0' }],
+	['MP3:256', { codec: 'mp3', bitrate: 256 }],
+	['mp3:192k', { codec: 'mp3', bitrate: 192 }],
+	[' flac ', { codec: 'flac', bitrate: undefined }],
+	['aiff', { codec: 'aiff', bitrate: undefined }],
+	['alac', { codec: 'alac', bitrate: undefined }],
+	['aac', { codec: 'aac', bitrate: 256 }],
+	['aac:128', { codec: 'aac', bitrate: 128 }],
+	['opus:96', { codec: 'opus', bitrate: 96 }],
+];
+
+const invalidSpecs: Array<[string, string]> = [
+	['wav', 'Unknown output format "wav"'],
+	['mp3:320:extra', 'Unknown output format'],
+	['', 'Unknown output format'],
+	['flac:320', 'FLAC is lossless and takes no bitrate'],
+	['aac:v0', 'V0 is only available for MP3'],
+	['mp3:999', 'Invalid bitrate "999" for MP3 (expected 32-320 kbps)'],
+	['opus:16', 'Invalid bitrate "16" for Opus (expected 32-512 kbps)'],
+	['aac:high', 'Invalid bitrate "high" for AAC'],
+];
+
+describe('parseOutputFormat', () => {
+	test.each(validSpecs)('%p', (spec, expected) => {
+		expect(parseOutputFormat(spec)).toEqual(expected);
+	});
+
+	test.each(invalidSpecs)('rejects %p', (spec, error) => {
+		expect(() => parseOutputFormat(spec)).toThrow(error);
+	});
+
+	test.each(validSpecs)('reads back the spec of %p', (spec) => {
+		const format = parseOutputFormat(spec);
+		expect(parseOutputFormat(getOutputFormatSpec(format))).toEqual(format);
+	});
+});
+
+const encoderCases: Array<[string, number | undefined, string[]]> = [
+	[
+		'mp3',
+		undefined,
+		['-c:a', 'libmp3lame', '-b:a', '320k', '-id3v2_version', '3'],
+	],
+	[
+		'mp3:v0',
+		undefined,
+		['-c:a', 'libmp3lame', '-q:a', '0', '-id3v2_version', '3'],
+	],
+	['flac', 24, ['-c:a', 'flac']],
+	[
+		'aiff',
+		16,
+		['-c:a', 'pcm_s16be', '-write_id3v2', '1', '-id3v2_version', '3'],
+	],
+	[
+		'aiff',
+		24,
+		['-c:a', 'pcm_s24be', '-write_id3v2', '1', '-id3v2_version', '3'],
+	],
+	['alac', undefined, ['-c:a', 'alac']],
+	['aac:192', undefined, ['-c:a', 'aac', '-b:a', '192k']],
+	['opus', undefined, ['-c:a', 'libopus', '-b:a', '160k']],
+];
+
+describe('getEncoderArgs', () => {
+	test.each(encoderCases)('%p (%p bit)', (spec, bitDepth, expected) => {
+		expect(getEncoderArgs(parseOutputFormat(spec), bitDepth)).toEqual(expected);
+	});
+});
+
+describe('getMetadataArgs', () => {
+	const metadata = {
+		title: ' Track ',
+		bpm: '128',
+		key: 'A minor',
+		label: 'Label',
+		sourceUrl: 'https://soundcloud.com/artist/track',
+		comment: '',
+	};
+
+	const tagCases: Array<[string, string[], Array<keyof Metadata>]> = [
+		[
+			'mp3',
+			[
+				'title=Track',
+				'TBPM=128',
+				'TKEY=A minor',
+				'publisher=Label',
+				'WWWAUDIOSOURCE=https://soundcloud.com/artist/track',
+			],
+			[],
+		],
+		[
+			'flac',
+			[
+				'TITLE=Track',
+				'BPM=128',
+				'INITIALKEY=A minor',
+				'LABEL=Label',
+				'WWWAUDIOSOURCE=https://soundcloud.com/artist/track',
+			],
+			[],
+		],
+		['alac', ['title=Track', 'tmpo=128'], ['key', 'label', 'sourceUrl']],
+	];
+
+	test.each(tagCases)('%p', (spec, tags, unsupported) => {
+		const result = getMetadataArgs(metadata, parseOutputFormat(spec));
+
+		expect(result.args).toEqual(tags.flatMap((tag) => ['-metadata', tag]));
+		expect(result.unsupported).toEqual(unsupported);
+	});
+});
+
+describe('isInOutputFormat', () => {
+	test.each([
+		['track.flac', 'flac', true],
+		['track.aif', 'aiff', true],
+		['track.wav', 'flac', false],
+		['track.mp3', 'mp3', false],
+	] as const)('%p as %p', (filename, spec, expected) => {
+		expect(isInOutputFormat(filename, parseOutputFormat(spec))).toBe(expected);
+	});
+});
@@ -0,0 +1,307 @@
+import type { Metadata } from './types';
+
+export type OutputCodec = 'mp3' | 'flac' | 'aiff' | 'alac' | 'aac' | 'opus';
+
+type TagFormat = 'id3' | 'vorbis' | 'mp4';
+
+export interface OutputFormat {
+	codec: OutputCodec;
+	// kbps for lossy codecs; 'v0' selects LAME's highest VBR quality for MP3
+	bitrate?: number | 'v0';
+}
+
+interface CodecDefinition {
+	label: string;
+	extension: string;
+	lossless: boolean;
+	defaultBitrate?: number;
+	maxBitrate?: number;
+	// whether the container can carry the artwork as an attached picture
+	supportsArtwork: boolean;
+	tags: TagFormat;
+}
+
+const CODECS: Record<OutputCodec, CodecDefinition> = {
+	mp3: {
+		label: 'MP3',
+		extension: 'mp3',
+		lossless: false,
+		defaultBitrate: 320,
+		maxBitrate: 320,
+		supportsArtwork: true,
+		tags: 'id3',
+	},
+	flac: {
+		label: 'FLAC',
+		extension: 'flac',
+		lossless: true,
+		supportsArtwork: true,
+		tags: 'vorbis',
+	},
+	aiff: {
+		label: 'AIFF',
+		extension: 'aiff',
+		lossless: true,
+		supportsArtwork: true,
+		tags: 'id3',
+	},
+	alac: {
+		label: 'ALAC',
+		extension: 'm4a',
+		lossless: true,
+		supportsArtwork: true,
+		tags: 'mp4',
+	},
+	aac: {
+		label: 'AAC',
+		extension: 'm4a',
+		lossless: false,
+		defaultBitrate: 256,
+		maxBitrate: 512,
+		supportsArtwork: true,
+		tags: 'mp4',
+	},
+	opus: {
+		label: 'Opus',
+		extension: 'opus',
+		lossless: false,
+		defaultBitrate: 160,
+		maxBitrate: 512,
+		// ffmpeg can't write cover art into Ogg containers
+		supportsArtwork: false,
+		tags: 'vorbis',
+	},
+};
+
+export const OUTPUT_CODECS = Object.keys(CODECS) as OutputCodec[];
+
+export const DEFAULT_OUTPUT_FORMAT: OutputFormat = {
+	codec: 'mp3',
+	bitrate: 320,
+};
+
+function isOutputCodec(value: string): value is OutputCodec {
+	return value in CODECS;
+}
+
+/**
+ * Parses a format spec such as `mp3`, `mp3:v0`, `mp3:256`, `aac:256` or `flac`
+ */
+export function parseOutputFormat(spec: string): OutputFormat {
+	const [rawCodec = '', rawBitrate, ...rest] = spec
+		.trim()
+		.toLowerCase()
+		.split(':');
+	if (!isOutputCodec(rawCodec) || rest.length) {
+		throw new Error(
+			`Unknown output format "${spec}". Supported formats: ${OUTPUT_CODECS.join(', ')}`,
+		);
+	}
+	const definition = CODECS[rawCodec];
+
+	if (rawBitrate === undefined) {
+		return { codec: rawCodec, bitrate: definition.defaultBitrate };
+	}
+	if (definition.lossless) {
+		throw new Error(`${definition.label} is lossless and takes no bitrate`);
+	}
+	if (rawBitrate === 'v0') {
+		if (rawCodec !== 'mp3') {
+			throw new Error('V0 is only available for MP3');
+		}
+		return { codec: rawCodec, bitrate: 'v0' };
+	}
+
+	const bitrate = Number(rawBitrate.replace(/k$/, ''));
+	const maxBitrate = definition.maxBitrate ?? 512;
+	if (!Number.isInteger(bitrate) || bitrate < 32 || bitrate > maxBitrate) {
+		throw new Error(
+			`Invalid bitrate "${rawBitrate}" for ${definition.label} (expected 32-${maxBitrate} kbps)`,
+		);
+	}
+	return { codec: rawCodec, bitrate };
+}
+
+export function formatOutputFormat(format: OutputFormat): string {
+	const { label } = CODECS[format.codec];
+	if (format.bitrate === 'v0') {
+		return `${label} (V0)`;
+	}
+	return format.bitrate ? `${label} (${format.bitrate}kbps)` : label;
+}
+
+// The spec parseOutputFormat reads back, e.g. `mp3:320` or `flac`
+export function getOutputFormatSpec(format: OutputFormat): string {
+	return format.bitrate ? `${format.codec}:${format.bitrate}` : format.codec;
+}
+
+export function getOutputExtension(format: OutputFormat): string {
+	return CODECS[format.codec].extension;
+}
+
+export function supportsArtwork(format: OutputFormat): boolean {
+	return CODECS[format.codec].supportsArtwork;
+}
+
+// ffmpeg metadata keys per tag format. ffmpeg maps the generic keys (title,
+// date, track, ...) to the native frame or atom itself; keys it doesn't know
+// are written as is, e.g. as TXXX frames in ID3. Fields without a key can't be
+// stored in that container.
+const TAG_KEYS: Record<TagFormat, Partial<Record<keyof Metadata, string>>> = {
+	id3: {
+		title: 'title',
+		artist: 'artist',
+		album: 'album',
+		genre: 'genre',
+		// split into TYER and TDAT by ffmpeg for ID3v2.3
+		date: 'date',
+		label: 'publisher',
+		bpm: 'TBPM',
+		key: 'TKEY',
+		composer: 'composer',
+		trackNumber: 'track',
+		discNumber: 'disc',
+		comment: 'comment',
+		// ffmpeg can't write WOAS URL frames, so this ends up as TXXX
+		sourceUrl: 'WWWAUDIOSOURCE',
+	},
+	vorbis: {
+		title: 'TITLE',
+		artist: 'ARTIST',
+		album: 'ALBUM',
+		genre: 'GENRE',
+		date: 'DATE',
+		label: 'LABEL',
+		bpm: 'BPM',
+		key: 'INITIALKEY',
+		composer: 'COMPOSER',
+		trackNumber: 'track',
+		discNumber: 'disc',
+		comment: 'comment',
+		sourceUrl: 'WWWAUDIOSOURCE',
+	},
+	mp4: {
+		title: 'title',
+		artist: 'artist',
+		album: 'album',
+		genre: 'genre',
+		date: 'date',
+		bpm: 'tmpo',
+		composer: 'composer',
+		trackNumber: 'track',
+		discNumber: 'disc',
+		comment: 'comment',
+	},
+};
+
+/**
+ * ffmpeg `-metadata` arguments for every set field, together with the fields
+ * the container has no place for
+ */
+export function getMetadataArgs(
+	metadata: Metadata,
+	format: OutputFormat,
+): { args: string[]; unsupported: Array<keyof Metadata> } {
+	const tags = CODECS[format.codec].tags;
+	const args: string[] = [];
+	const unsupported: Array<keyof Metadata> = [];
+
+	for (const [field, rawValue] of Object.entries(metadata) as Array<
+		[keyof Metadata, string | undefined]
+	>) {
+		const value = rawValue?.trim();
+		if (!value) {
+			continue;
+		}
+		const key = TAG_KEYS[tags][field];
+		if (!key) {
+			unsupported.push(field);
+			continue;
+		}
+		args.push('-metadata', `${key}=${value}`);
+	}
+
+	return { args, unsupported };
+}
+
+/**
+ * ffmpeg arguments for the tag flavour of a format. MP3 and AIFF carry ID3v2.3
+ * tags, the other containers get their native tags.
+ */
+export function getTagFormatArgs(format: OutputFormat): string[] {
+	switch (format.codec) {
+		case 'mp3':
+			return ['-id3v2_version', '3'];
+		case 'aiff':
+			return ['-write_id3v2', '1', '-id3v2_version', '3'];
+		default:
+			return [];
+	}
+}
+
+/**
+ * ffmpeg arguments selecting the audio encoder for a format.
+ * `sourceBitDepth` picks a matching PCM sample format for AIFF output.
+ */
+export function getEncoderArgs(
+	format: OutputFormat,
+	sourceBitDepth?: number,
+): string[] {
+	const tagArgs = getTagFormatArgs(format);
+	switch (format.codec) {
+		case 'mp3':
+			return [
+				'-c:a',
+				'libmp3lame',
+				...(format.bitrate === 'v0'
+					? ['-q:a', '0']
+					: ['-b:a', `${format.bitrate ?? 320}k`]),
+				...tagArgs,
+			];
+		case 'flac':
+			return ['-c:a', 'flac'];
+		case 'aiff':
+			return [
+				'-c:a',
+				sourceBitDepth && sourceBitDepth <= 16 ? 'pcm_s16be' : 'pcm_s24be',
+				...tagArgs,
+			];
+		case 'alac':
+			return ['-c:a', 'alac'];
+		case 'aac':
+			return ['-c:a', 'aac', '-b:a', `${format.bitrate ?? 256}k`];
+		case 'opus':
+			return ['-c:a', 'libopus', '-b:a', `${format.bitrate ?? 160}k`];
+	}
+}
+
+const MIME_TYPES: Record<string, string> = {
+	mp3: 'audio/mpeg',
+	flac: 'audio/flac',
+	aiff: 'audio/aiff',
+	aif: 'audio/aiff',
+	m4a: 'audio/mp4',
+	opus: 'audio/ogg',
+	ogg: 'audio/ogg',
+	wav: 'audio/wav',
+};
+
+export function getAudioMimeType(filename: string): string {
+	const extension = filename.split('.').pop()?.toLowerCase() ?? '';
+	return MIME_TYPES[extension] ?? 'application/octet-stream';
+}
+
+/**
+ * Whether a downloaded file is already in the requested lossless format, in
+ * which case it only needs to be retagged
+ */
+export function isInOutputFormat(
+	filename: string,
+	format: OutputFormat,
+): boolean {
+	const extension = filename.split('.').pop()?.toLowerCase();
+	return (
+		(extension === 'aif' ? 'aiff' : extension) === getOutputExtension(format) &&
+		CODECS[format.codec].lossless
+	);
+}
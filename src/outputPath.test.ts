@@ -0,0 +1,155 @@
+import { afterEach, describe, expect, spyOn, test } from 'bun:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+	type FileExistsAction,
+	moveToOutput,
+	renderOutputTemplate,
+	sanitizePathSegment,
+	validateOutputTemplate,
+} from './outputPath';
+import type { Metadata } from './types';
+
+const metadata: Metadata = {
+	title: 'Track',
+	artist: 'AC/DC',
+	album: 'Album',
+	date: '2024-05-01',
+};
+
+const templateCases: Array<[string, Metadata, string]> = [
+	['{filename}.{ext}', metadata, 'served name.wav'],
+	['{artist} - {title}.{ext}', metadata, 'AC_DC - Track.wav'],
+	[
+		'{artist}/{album}/{title}.{ext}',
+		metadata,
+		join('AC_DC', 'Album', 'Track.wav'),
+	],
+	['{year}/{title}.{ext}', metadata, join('2024', 'Track.wav')],
+	[
+		'{artist}/{label}/{title}.{ext}',
+		{ title: 'Track' },
+		join('Unknown Artist', 'Unknown Label', 'Track.wav'),
+	],
+	['{title}.{ext}', { title: '  ' }, 'Unknown Title.wav'],
+	['a\\\\b//{title}.{ext}', metadata, join('a', 'b', 'Track.wav')],
+	['{title}.{ext}', { title: '.hidden' }, 'hidden.wav'],
+	['../{title}.{ext}', metadata, join('_', 'Track.wav')],
+];
+
+describe('renderOutputTemplate', () => {
+	test.each(templateCases)('%p with %p', (template, values, expected) => {
+		expect(
+			renderOutputTemplate(template, values, 'downloads/served name.wav'),
+		).toBe(expected);
+	});
+
+	test('rejects unknown placeholders', () => {
+		expect(() =>
+			renderOutputTemplate('{bitrate}.{ext}', metadata, 'track.mp3'),
+		).toThrow('Unknown placeholder {bitrate}');
+	});
+});
+
+const validationCases: Array<[string, string | true]> = [
+	['{artist}/{title}.{ext}', true],
+	['static name.mp3', true],
+	['', 'Output template must not be empty'],
+	['{Title}.{ext}', 'Unknown placeholder {Title} in output template'],
+	['{}.{ext}', 'Unknown placeholder {} in output template'],
+];
+
+describe('validateOutputTemplate', () => {
+	test.each(validationCases)('%p', (template, expected) => {
+		const result = validateOutputTemplate(template);
+		if (expected === true) {
+			expect(result).toBe(true);
+		} else {
+			expect(result).toStartWith(expected);
+		}
+	});
+});
+
+const sanitizeCases: Array<[string, string]> = [
+	['Artist - Title', 'Artist - Title'],
+	['What?: A <Remix>', 'What__ A _Remix_'],
+	['back\\slash|pipe*"quote"', 'back_slash_pipe__quote_'],
+	['tab\there\u0001', 'tab_here_'],
+	['  many   spaces  ', 'many spaces'],
+	['.hidden', 'hidden'],
+	['...', '_'],
+	['trailing dots...', 'trailing dots'],
+	['CON', '_CON'],
+	['lpt1.mp3', '_lpt1.mp3'],
+	['console', 'console'],
+	['', '_'],
+	[`${'a'.repeat(250)}.flac`, `${'a'.repeat(195)}.flac`],
+];
+
+describe('sanitizePathSegment', () => {
+	test.each(sanitizeCases)('%p', (segment, expected) => {
+		expect(sanitizePathSegment(segment)).toBe(expected);
+	});
+});
+
+describe('moveToOutput', () => {
+	let dir: string | undefined;
+
+	afterEach(async () => {
+		if (dir) {
+			await rm(dir, { recursive: true, force: true });
+			dir = undefined;
+		}
+	});
+
+	// A processed file and an existing one at its templated path
+	async function collision(onFileExists: FileExistsAction) {
+		dir = await mkdtemp(join(tmpdir(), 'output-path-test-'));
+		const processed = join(dir, 'processed.mp3');
+		await Bun.write(processed, 'new');
+		await Bun.write(join(dir, 'library', 'AC_DC', 'Track.mp3'), 'existing');
+		const log = spyOn(console, 'log').mockImplementation(() => {});
+		try {
+			const result = await moveToOutput(processed, metadata, {
+				directory: join(dir, 'library'),
+				template: '{artist}/{title}.{ext}',
+				onFileExists,
+			});
+			return { ...result, processed };
+		} finally {
+			log.mockRestore();
+		}
+	}
+
+	const collisionCases: Array<[FileExistsAction, string, boolean, string]> = [
+		['suffix', 'Track (1).mp3', false, 'new'],
+		['skip', 'Track.mp3', true, 'existing'],
+	];
+
+	test.each(
+		collisionCases,
+	)('%p on an existing file', async (onFileExists, name, skipped, content) => {
+		const result = await collision(onFileExists);
+
+		expect(result.path).toBe(join(dir ?? '', 'library', 'AC_DC', name));
+		expect(result.skipped).toBe(skipped);
+		expect(await Bun.file(result.path).text()).toBe(content);
+		expect(await Bun.file(result.processed).exists()).toBe(false);
+	});
+
+	test('leaves a file that is already at its target', async () => {
+		dir = await mkdtemp(join(tmpdir(), 'output-path-test-'));
+		const processed = join(dir, 'track.mp3');
+		await Bun.write(processed, 'new');
+
+		expect(
+			await moveToOutput(processed, metadata, {
+				directory: dir,
+				template: '{filename}.{ext}',
+				onFileExists: 'skip',
+			}),
+		).toEqual({ path: processed, skipped: false });
+		expect(await Bun.file(processed).text()).toBe('new');
+	});
+});
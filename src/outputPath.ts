@@ -0,0 +1,201 @@
+import { mkdir, rename, unlink } from 'node:fs/promises';
+import { basename, dirname, extname, join, resolve } from 'node:path';
+import type { Metadata } from './types';
+
+export type FileExistsAction = 'suffix' | 'skip';
+
+export const FILE_EXISTS_ACTIONS: FileExistsAction[] = ['suffix', 'skip'];
+
+export interface OutputOptions {
+	// root the rendered template is relative to
+	directory: string;
+	template: string;
+	onFileExists: FileExistsAction;
+}
+
+// `{filename}` is the name the file was served with, so the default keeps
+// processed files where they were before templates existed.
+export const DEFAULT_OUTPUT_OPTIONS: OutputOptions = {
+	directory: './downloads',
+	template: '{filename}.{ext}',
+	onFileExists: 'suffix',
+};
+
+const TEMPLATE_FIELDS = [
+	'title',
+	'artist',
+	'album',
+	'genre',
+	'year',
+	'label',
+	'filename',
+	'ext',
+] as const;
+
+type TemplateField = (typeof TEMPLATE_FIELDS)[number];
+
+const FALLBACK_VALUES: Record<TemplateField, string> = {
+	title: 'Unknown Title',
+	artist: 'Unknown Artist',
+	album: 'Unknown Album',
+	genre: 'Unknown Genre',
+	year: 'Unknown Year',
+	label: 'Unknown Label',
+	filename: 'download',
+	ext: '',
+};
+
+const PLACEHOLDER_PATTERN = /\{([^{}]*)\}/g;
+
+// Device names Windows refuses as file names, with or without an extension
+const RESERVED_NAMES = /^(con|prn|aux|nul|com\d|lpt\d)(\..*)?$/i;
+
+const MAX_SEGMENT_LENGTH = 200;
+
+// Characters Windows doesn't allow in file names; control characters (below
+// 0x20) aren't allowed either
+const INVALID_CHARACTERS = new Set('<>:"/\\|?*');
+
+function replaceInvalidCharacters(segment: string): string {
+	return Array.from(segment, (character) =>
+		INVALID_CHARACTERS.has(character) || character.charCodeAt(0) < 0x20
+			? '_'
+			: character,
+	).join('');
+}
+
+function isTemplateField(value: string): value is TemplateField {
+	return (TEMPLATE_FIELDS as readonly string[]).includes(value);
+}
+
+/**
+ * Checks a template for unknown placeholders. Returns true or an error message,
+ * like the prompt validators in utils.
+ */
+export function validateOutputTemplate(template: string): string | true {
+	if (!template.trim()) {
+		return 'Output template must not be empty';
+	}
+	for (const [, field = ''] of template.matchAll(PLACEHOLDER_PATTERN)) {
+		if (!isTemplateField(field)) {
+			return `Unknown placeholder {${field}} in output template. Available: ${TEMPLATE_FIELDS.map((name) => `{${name}}`).join(', ')}`;
+		}
+	}
+	return true;
+}
+
+/**
+ * Makes a single path segment safe on every common filesystem
+ */
+export function sanitizePathSegment(segment: string): string {
+	let sanitized = replaceInvalidCharacters(segment)
+		.replace(/\s+/g, ' ')
+		.trim()
+		// no hidden files or `..` traversal
+		.replace(/^\.+/, '')
+		// Windows strips trailing dots and spaces
+		.replace(/[. ]+$/, '');
+
+	if (sanitized.length > MAX_SEGMENT_LENGTH) {
+		const extension = extname(sanitized);
+		sanitized =
+			sanitized.slice(0, MAX_SEGMENT_LENGTH - extension.length).trimEnd() +
+			extension;
+	}
+	if (RESERVED_NAMES.test(sanitized)) {
+		sanitized = `_${sanitized}`;
+	}
+	return sanitized || '_';
+}
+
+/**
+ * Renders the template into a relative path. Values are substituted per path
+ * segment, so a `/` in a tag (e.g. "AC/DC") can't create extra folders.
+ */
+export function renderOutputTemplate(
+	template: string,
+	metadata: Metadata,
+	filePath: string,
+): string {
+	const validation = validateOutputTemplate(template);
+	if (validation !== true) {
+		throw new Error(validation);
+	}
+
+	const extension = extname(filePath);
+	const values: Partial<Record<TemplateField, string>> = {
+		...metadata,
+		year: metadata.date?.slice(0, 4),
+		filename: basename(filePath, extension),
+		ext: extension.slice(1),
+	};
+
+	const segments = template
+		.split(/[/\\]/)
+		.filter((segment) => segment.trim())
+		.map((segment) =>
+			sanitizePathSegment(
+				segment.replace(PLACEHOLDER_PATTERN, (_, field: TemplateField) => {
+					return values[field]?.trim() || FALLBACK_VALUES[field];
+				}),
+			),
+		);
+	return join(...segments);
+}
+
+async function moveFile(from: string, to: string): Promise<void> {
+	try {
+		await rename(from, to);
+	} catch (error) {
+		// rename can't cross filesystems, e.g. when the output root is a mount
+		if ((error as NodeJS.ErrnoException).code !== 'EXDEV') {
+			throw error;
+		}
+		await Bun.write(to, Bun.file(from));
+		await unlink(from);
+	}
+}
+
+async function findFreePath(path: string): Promise<string> {
+	const extension = extname(path);
+	const base = path.slice(0, path.length - extension.length);
+	for (let counter = 1; ; counter++) {
+		const candidate = `${base} (${counter})${extension}`;
+		if (!(await Bun.file(candidate).exists())) {
+			return candidate;
+		}
+	}
+}
+
+/**
+ * Moves a processed file to its templated location under the output root.
+ * When the target exists the file either gets a numbered suffix or is skipped,
+ * in which case the processed file is removed and the existing path returned.
+ */
+export async function moveToOutput(
+	filePath: string,
+	metadata: Metadata,
+	options: OutputOptions,
+): Promise<{ path: string; skipped: boolean }> {
+	let target = join(
+		options.directory,
+		renderOutputTemplate(options.template, metadata, filePath),
+	);
+	if (resolve(target) === resolve(filePath)) {
+		return { path: filePath, skipped: false };
+	}
+
+	if (await Bun.file(target).exists()) {
+		if (options.onFileExists === 'skip') {
+			await unlink(filePath);
+			console.log(`✓ ${target} already exists, skipped`);
+			return { path: target, skipped: true };
+		}
+		target = await findFreePath(target);
+	}
+
+	await mkdir(dirname(target), { recursive: true });
+	await moveFile(filePath, target);
+	console.log(`✓ Saved to ${target}`);
+	return { path: target, skipped: false };
+}
@@ -0,0 +1,414 @@
+import { connect, createServer, type Server, type Socket } from 'node:net';
+import { connect as connectTls } from 'node:tls';
+
+// Proxies from the `proxies` key in config.json, used by the browserless
+// downloader, the SoundCloud client and the browser. Bun's fetch talks to
+// HTTP(S) proxies itself. SOCKS5 proxies and the browser go through a local
+// bridge that opens every connection through the current proxy, including its
+// credentials, which Chrome can't send on its own.
+
+export interface ProxyServer {
+	protocol: 'http' | 'https' | 'socks5';
+	host: string;
+	port: number;
+	username?: string;
+	password?: string;
+	// as configured, including the credentials
+	url: string;
+}
+
+const DEFAULT_PORTS: Record<ProxyServer['protocol'], number> = {
+	http: 80,
+	https: 443,
+	socks5: 1080,
+};
+
+// Responses that usually mean the proxy's IP is blocked or rate-limited
+export const PROXY_ROTATION_STATUSES = new Set([403, 429]);
+
+const HANDSHAKE_TIMEOUT_MS = 15_000;
+const MAX_HEAD_BYTES = 64 * 1024;
+
+const SOCKS5_ERRORS: Record<number, string> = {
+	1: 'general failure',
+	2: 'connection not allowed',
+	3: 'network unreachable',
+	4: 'host unreachable',
+	5: 'connection refused',
+	6: 'TTL expired',
+	7: 'command not supported',
+	8: 'address type not supported',
+};
+
+let proxies: ProxyServer[] = [];
+let current = 0;
+let bridge: Server | null = null;
+let bridgeUrl: string | undefined;
+
+function isProxyProtocol(value: string): value is ProxyServer['protocol'] {
+	return value in DEFAULT_PORTS;
+}
+
+export function parseProxyUrl(value: string): ProxyServer {
+	let url: URL;
+	try {
+		url = new URL(value);
+	} catch {
+		throw new Error(`${value} is not a valid URL`);
+	}
+	// socks5h only means "resolve host names on the proxy", which we always do
+	const protocol = url.protocol.slice(0, -1).replace(/^socks5h$/, 'socks5');
+	if (!isProxyProtocol(protocol)) {
+		throw new Error(
+			`${url.protocol} proxies are not supported (expected http:, https: or socks5:)`,
+		);
+	}
+	if (!url.hostname) {
+		throw new Error(`${value} has no host`);
+	}
+	return {
+		protocol,
+		host: url.hostname.replace(/^\[(.*)\]$/, '$1'),
+		port: Number(url.port) || DEFAULT_PORTS[protocol],
+		username: url.username ? decodeURIComponent(url.username) : undefined,
+		password: url.password ? decodeURIComponent(url.password) : undefined,
+		url: value,
+	};
+}
+
+export function validateProxies(value: unknown): string | true {
+	if (!Array.isArray(value)) {
+		return 'must be an array of proxy URLs';
+	}
+	for (const entry of value) {
+		if (typeof entry !== 'string') {
+			return 'every proxy must be a URL string';
+		}
+		try {
+			parseProxyUrl(entry);
+		} catch (error) {
+			return error instanceof Error ? error.message : String(error);
+		}
+	}
+	return true;
+}
+
+// Without the credentials, for log messages
+export function describeProxy(proxy: ProxyServer): string {
+	return `${proxy.protocol}://${proxy.host}:${proxy.port}`;
+}
+
+// Collects the bytes of a socket until a handshake step is complete. Once the
+// handshake is done, release() hands the socket over for piping.
+class SocketReader {
+	private buffer = Buffer.alloc(0);
+	private closed: Error | null = null;
+	private notify: (() => void) | null = null;
+
+	private readonly onData = (chunk: Buffer) => {
+		this.buffer = Buffer.concat([this.buffer, chunk]);
+		this.wake();
+	};
+
+	private readonly onClose = (error?: unknown) => {
+		this.closed =
+			error instanceof Error ? error : new Error('connection closed');
+		this.wake();
+	};
+
+	constructor(private readonly socket: Socket) {
+		socket.on('data', this.onData);
+		socket.on('error', this.onClose);
+		socket.on('close', this.onClose);
+	}
+
+	private wake(): void {
+		this.notify?.();
+		this.notify = null;
+	}
+
+	// Resolves with the first `available()` bytes once it returns a length
+	private async take(available: () => number | null): Promise<Buffer> {
+		while (true) {
+			const length = available();
+			if (length !== null) {
+				const bytes = this.buffer.subarray(0, length);
+				this.buffer = this.buffer.subarray(length);
+				return bytes;
+			}
+			if (this.closed) {
+				throw this.closed;
+			}
+			await new Promise<void>((resolve) => {
+				this.notify = resolve;
+			});
+		}
+	}
+
+	read(length: number): Promise<Buffer> {
+		return this.take(() => (this.buffer.length >= length ? length : null));
+	}
+
+	// An HTTP request or response head, up to and including the empty line
+	readHead(): Promise<Buffer> {
+		return this.take(() => {
+			const end = this.buffer.indexOf('\r\n\r\n');
+			if (end !== -1) {
+				return end + 4;
+			}
+			if (this.buffer.length > MAX_HEAD_BYTES) {
+				throw new Error('HTTP head too large');
+			}
+			return null;
+		});
+	}
+
+	// Stops reading and returns what was received beyond the handshake
+	release(): Buffer {
+		this.socket.pause();
+		this.socket.off('data', this.onData);
+		this.socket.off('error', this.onClose);
+		this.socket.off('close', this.onClose);
+		return this.buffer;
+	}
+}
+
+function connectToProxy(proxy: ProxyServer): Promise<Socket> {
+	return new Promise((resolve, reject) => {
+		const onConnect = () => {
+			socket.off('error', reject);
+			resolve(socket);
+		};
+		const socket =
+			proxy.protocol === 'https'
+				? connectTls(
+						{ host: proxy.host, port: proxy.port, servername: proxy.host },
+						onConnect,
+					)
+				: connect({ host: proxy.host, port: proxy.port }, onConnect);
+		socket.once('error', reject);
+	});
+}
+
+async function socks5Handshake(
+	proxy: ProxyServer,
+	socket: Socket,
+	reader: SocketReader,
+	host: string,
+	port: number,
+): Promise<void> {
+	// 0x00: no authentication, 0x02: username and password (RFC 1929)
+	const methods = proxy.username ? [0x00, 0x02] : [0x00];
+	socket.write(Buffer.from([0x05, methods.length, ...methods]));
+	const [version, method] = await reader.read(2);
+	if (version !== 0x05) {
+		throw new Error(`${describeProxy(proxy)} is not a SOCKS5 proxy`);
+	}
+	if (method === 0x02) {
+		const username = Buffer.from(proxy.username ?? '');
+		const password = Buffer.from(proxy.password ?? '');
+		socket.write(
+			Buffer.concat([
+				Buffer.from([0x01, username.length]),
+				username,
+				Buffer.from([password.length]),
+				password,
+			]),
+		);
+		const [, status] = await reader.read(2);
+		if (status !== 0x00) {
+			throw new Error(`${describeProxy(proxy)} rejected the credentials`);
+		}
+	} else if (method !== 0x00) {
+		throw new Error(
+			`${describeProxy(proxy)} requires an unsupported authentication method`,
+		);
+	}
+
+	// connect by host name, so DNS is resolved on the proxy
+	const hostBytes = Buffer.from(host);
+	socket.write(
+		Buffer.concat([
+			Buffer.from([0x05, 0x01, 0x00, 0x03, hostBytes.length]),
+			hostBytes,
+			Buffer.from([port >> 8, port & 0xff]),
+		]),
+	);
+	const [, reply = 1, , addressType] = await reader.read(4);
+	if (reply !== 0x00) {
+		throw new Error(
+			`${describeProxy(proxy)} could not connect to ${host}:${port} (${SOCKS5_ERRORS[reply] ?? `error ${reply}`})`,
+		);
+	}
+	// skip the bound address and port
+	const addressLength =
+		addressType === 0x01
+			? 4
+			: addressType === 0x04
+				? 16
+				: ((await reader.read(1))[0] ?? 0);
+	await reader.read(addressLength + 2);
+}
+
+async function httpConnectHandshake(
+	proxy: ProxyServer,
+	socket: Socket,
+	reader: SocketReader,
+	host: string,
+	port: number,
+): Promise<void> {
+	const target = host.includes(':') ? `[${host}]:${port}` : `${host}:${port}`;
+	const authorization = proxy.username
+		? `Proxy-Authorization: Basic ${Buffer.from(`${proxy.username}:${proxy.password ?? ''}`).toString('base64')}\r\n`
+		: '';
+	socket.write(
+		`CONNECT ${target} HTTP/1.1\r\nHost: ${target}\r\n${authorization}\r\n`,
+	);
+	const head = (await reader.readHead()).toString('latin1');
+	const status = Number(head.match(/^HTTP\/1\.[01] (\d{3})/)?.[1]);
+	if (status !== 200) {
+		throw new Error(
+			`${describeProxy(proxy)} refused the connection to ${target} (${status || 'invalid response'})`,
+		);
+	}
+}
+
+// Opens a connection to host:port through the proxy
+async function openTunnel(
+	proxy: ProxyServer,
+	host: string,
+	port: number,
+): Promise<{ socket: Socket; received: Buffer }> {
+	const socket = await connectToProxy(proxy);
+	const reader = new SocketReader(socket);
+	socket.setTimeout(HANDSHAKE_TIMEOUT_MS, () =>
+		socket.destroy(new Error(`${describeProxy(proxy)} did not answer in time`)),
+	);
+	try {
+		if (proxy.protocol === 'socks5') {
+			await socks5Handshake(proxy, socket, reader, host, port);
+		} else {
+			await httpConnectHandshake(proxy, socket, reader, host, port);
+		}
+	} catch (error) {
+		socket.destroy();
+		throw error;
+	}
+	socket.setTimeout(0);
+	return { socket, received: reader.release() };
+}
+
+// Serves one client of the bridge: a CONNECT request, or a plain HTTP request
+// with an absolute URL that is passed on as is.
+async function handleBridgeClient(client: Socket): Promise<void> {
+	const reader = new SocketReader(client);
+	try {
+		const head = await reader.readHead();
+		const requestLine = head.toString('latin1').split('\r\n', 1)[0] ?? '';
+		const [method = '', target = ''] = requestLine.split(' ');
+		const url = new URL(method === 'CONNECT' ? `http://${target}` : target);
+		const host = url.hostname.replace(/^\[(.*)\]$/, '$1');
+		const port =
+			Number(url.port) ||
+			(method === 'CONNECT' || url.protocol === 'https:' ? 443 : 80);
+
+		const proxy = proxies[current];
+		if (!proxy) {
+			throw new Error('no proxy configured');
+		}
+		const tunnel = await openTunnel(proxy, host, port);
+		const upstream = tunnel.socket;
+		const pending = reader.release();
+
+		client.on('error', () => upstream.destroy());
+		upstream.on('error', () => client.destroy());
+		if (method === 'CONNECT') {
+			client.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+		} else {
+			upstream.write(head);
+		}
+		upstream.write(pending);
+		client.write(tunnel.received);
+		client.pipe(upstream);
+		upstream.pipe(client);
+	} catch (error) {
+		console.log(
+			`Proxy: ${error instanceof Error ? error.message : String(error)}`,
+		);
+		if (!client.destroyed) {
+			client.end(
+				'HTTP/1.1 502 Bad Gateway\r\nContent-Length: 0\r\nConnection: close\r\n\r\n',
+			);
+		}
+	}
+}
+
+async function startBridge(): Promise<void> {
+	const server = createServer((client) => {
+		void handleBridgeClient(client);
+	});
+	await new Promise<void>((resolve, reject) => {
+		server.once('error', reject);
+		server.listen(0, '127.0.0.1', () => resolve());
+	});
+	// the bridge must not keep the CLI running
+	server.unref();
+	const address = server.address();
+	if (typeof address !== 'object' || !address) {
+		throw new Error('Could not start the proxy bridge');
+	}
+	bridge = server;
+	bridgeUrl = `http://127.0.0.1:${address.port}`;
+}
+
+/**
+ * Routes all requests through the given proxies, starting with the first one.
+ * More than one proxy enables rotation on blocked or rate-limited responses.
+ */
+export async function configureProxies(urls: string[]): Promise<void> {
+	proxies = urls.map(parseProxyUrl);
+	current = 0;
+	if (proxies.length && !bridge) {
+		await startBridge();
+	}
+}
+
+export function currentProxy(): ProxyServer | undefined {
+	return proxies[current];
+}
+
+export function proxyCount(): number {
+	return proxies.length;
+}
+
+// Value of the `proxy` option of Bun's fetch, undefined without proxies
+export function fetchProxy(): string | undefined {
+	const proxy = proxies[current];
+	if (!proxy) {
+		return undefined;
+	}
+	return proxy.protocol === 'socks5' ? bridgeUrl : proxy.url;
+}
+
+// Value of Chrome's --proxy-server flag, undefined without proxies
+export function browserProxy(): string | undefined {
+	return proxies.length ? bridgeUrl : undefined;
+}
+
+/**
+ * Moves on to the next proxy of the list. Returns false when there is no other
+ * proxy to switch to.
+ */
+export function rotateProxy(): boolean {
+	if (proxies.length < 2) {
+		return false;
+	}
+	current = (current + 1) % proxies.length;
+	const proxy = proxies[current];
+	if (proxy) {
+		console.log(
+			`⇄ Switching to proxy ${current + 1}/${proxies.length} (${describeProxy(proxy)})`,
+		);
+	}
+	return true;
+}
@@ -0,0 +1,178 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { configureProxies, currentProxy } from './proxy';
+import {
+	configureRetries,
+	getBackoffDelay,
+	HttpStatusError,
+	parseRetryAfter,
+	type RetryInfo,
+	validateRetryBudgets,
+	withRetry,
+} from './retry';
+
+describe('parseRetryAfter', () => {
+	test('reads seconds', () => {
+		expect(parseRetryAfter('120')).toBe(120_000);
+	});
+
+	test('reads HTTP dates', () => {
+		const now = Date.parse('Wed, 21 Oct 2026 07:28:00 GMT');
+		expect(parseRetryAfter('Wed, 21 Oct 2026 07:28:30 GMT', now)).toBe(30_000);
+	});
+
+	test('ignores missing and invalid values', () => {
+		expect(parseRetryAfter(null)).toBeUndefined();
+		expect(parseRetryAfter('soon')).toBeUndefined();
+	});
+});
+
+describe('getBackoffDelay', () => {
+	test('doubles per attempt with jitter', () => {
+		for (let attempt = 1; attempt <= 4; attempt++) {
+			const base = 1000 * 2 ** (attempt - 1);
+			const delay = getBackoffDelay(attempt);
+			expect(delay).toBeGreaterThanOrEqual(base / 2);
+			expect(delay).toBeLessThanOrEqual(base);
+		}
+	});
+
+	test('is capped', () => {
+		expect(getBackoffDelay(20)).toBeLessThanOrEqual(30_000);
+	});
+
+	test('waits at least as long as Retry-After', () => {
+		expect(getBackoffDelay(1, 5000)).toBe(5000);
+	});
+});
+
+describe('validateRetryBudgets', () => {
+	test('accepts partial budgets', () => {
+		expect(validateRetryBudgets({ download: 10 })).toBe(true);
+	});
+
+	test('rejects unknown budgets and invalid counts', () => {
+		expect(validateRetryBudgets({ uploads: 1 })).toContain('unknown budget');
+		expect(validateRetryBudgets({ download: -1 })).toContain('non-negative');
+		expect(validateRetryBudgets([])).toBe('must be an object');
+	});
+});
+
+describe('withRetry', () => {
+	afterEach(async () => {
+		configureRetries({});
+		await configureProxies([]);
+	});
+
+	test('retries retryable errors and reports each retry', async () => {
+		configureRetries({ soundcloud: 1 });
+		const retries: RetryInfo[] = [];
+		let calls = 0;
+		const result = await withRetry(
+			async () => {
+				calls++;
+				if (calls === 1) {
+					throw new HttpStatusError(503, 0);
+				}
+				return 'ok';
+			},
+			{
+				budget: 'soundcloud',
+				label: 'Test',
+				onRetry: (info) => retries.push(info),
+			},
+		);
+		expect(result).toBe('ok');
+		expect(calls).toBe(2);
+		expect(retries).toMatchObject([
+			{ label: 'Test', attempt: 2, maxAttempts: 2, reason: 'HTTP 503' },
+		]);
+	});
+
+	test('gives up once the budget is used up', async () => {
+		configureRetries({ soundcloud: 0 });
+		let calls = 0;
+		const task = withRetry(
+			async () => {
+				calls++;
+				throw new Error('Status code 500');
+			},
+			{ budget: 'soundcloud', label: 'Test' },
+		);
+		await expect(task).rejects.toThrow('Status code 500');
+		expect(calls).toBe(1);
+	});
+
+	test('does not retry client errors', async () => {
+		let calls = 0;
+		const task = withRetry(
+			async () => {
+				calls++;
+				throw new HttpStatusError(404);
+			},
+			{ budget: 'hypeddit', label: 'Test' },
+		);
+		await expect(task).rejects.toThrow('HTTP 404');
+		expect(calls).toBe(1);
+	});
+
+	test('does not retry local file system errors', async () => {
+		let calls = 0;
+		const task = withRetry(
+			async () => {
+				calls++;
+				throw Object.assign(new Error('no space left on device'), {
+					code: 'ENOSPC',
+				});
+			},
+			{ budget: 'download', label: 'Test' },
+		);
+		await expect(task).rejects.toThrow('no space left on device');
+		expect(calls).toBe(1);
+	});
+
+	test('retries network error codes', async () => {
+		configureRetries({ download: 1 });
+		let calls = 0;
+		const result = await withRetry(
+			async () => {
+				calls++;
+				if (calls === 1) {
+					throw Object.assign(new Error('socket hang up'), {
+						code: 'ECONNRESET',
+					});
+				}
+				return 'ok';
+			},
+			{ budget: 'download', label: 'Test' },
+		);
+		expect(result).toBe('ok');
+		expect(calls).toBe(2);
+	});
+
+	test('switches to the next proxy on 403 and 429', async () => {
+		await configureProxies([
+			'http://first.example:8080',
+			'http://second.example:8080',
+		]);
+		const retries: RetryInfo[] = [];
+		const proxies: Array<string | undefined> = [];
+		const task = withRetry(
+			async () => {
+				proxies.push(currentProxy()?.host);
+				throw new HttpStatusError(403);
+			},
+			{
+				budget: 'hypeddit',
+				label: 'Test',
+				onRetry: (info) => retries.push(info),
+			},
+		);
+
+		// every proxy is tried once, a 403 isn't retried otherwise
+		await expect(task).rejects.toThrow('HTTP 403');
+		expect(proxies).toEqual(['first.example', 'second.example']);
+		expect(retries).toMatchObject([
+			{ delayMs: 0, reason: 'HTTP 403, switched proxy' },
+		]);
+	});
+});
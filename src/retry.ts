@@ -0,0 +1,297 @@
+import {
+	fetchProxy,
+	PROXY_ROTATION_STATUSES,
+	proxyCount,
+	rotateProxy,
+} from './proxy';
+
+// Call categories with their own retry budget (number of retries after the
+// first attempt), configurable through the `retries` key in config.json.
+export type RetryBudget =
+	| 'hypeddit'
+	| 'download'
+	| 'soundcloud'
+	| 'artwork'
+	| 'cleanup';
+
+const DEFAULT_BUDGETS: Record<RetryBudget, number> = {
+	hypeddit: 3,
+	download: 5,
+	soundcloud: 3,
+	artwork: 3,
+	cleanup: 2,
+};
+
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30_000;
+// A server asking us to wait longer than this is treated as a hard failure
+const MAX_RETRY_AFTER_MS = 60_000;
+
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+// Error codes of failed connections, from Node (undici) and Bun's fetch. Other
+// codes like ENOSPC or EACCES are local problems a retry doesn't fix.
+const NETWORK_ERROR_CODES = new Set([
+	'ECONNRESET',
+	'ECONNREFUSED',
+	'ECONNABORTED',
+	'ETIMEDOUT',
+	'EPIPE',
+	'ENOTFOUND',
+	'EAI_AGAIN',
+	'EHOSTUNREACH',
+	'ENETUNREACH',
+	'ConnectionRefused',
+	'ConnectionClosed',
+	'FailedToOpenSocket',
+]);
+
+function isNetworkErrorCode(code: string): boolean {
+	return NETWORK_ERROR_CODES.has(code) || code.startsWith('UND_ERR_');
+}
+
+let budgets: Record<RetryBudget, number> = { ...DEFAULT_BUDGETS };
+
+export interface RetryInfo {
+	label: string;
+	// the attempt that is about to start, 2 for the first retry
+	attempt: number;
+	maxAttempts: number;
+	delayMs: number;
+	reason: string;
+}
+
+export type RetryListener = (info: RetryInfo) => void;
+
+export interface RetryOptions {
+	budget: RetryBudget;
+	// what is being retried, used in log and progress messages
+	label: string;
+	signal?: AbortSignal;
+	onRetry?: RetryListener;
+}
+
+// Thrown for responses with a retryable status so withRetry can back off
+export class HttpStatusError extends Error {
+	override name = 'HttpStatusError';
+
+	constructor(
+		readonly status: number,
+		readonly retryAfterMs?: number,
+		message = `HTTP ${status}`,
+	) {
+		super(message);
+	}
+}
+
+// Thrown by callers for failures that are worth another attempt but aren't
+// network errors, e.g. a download that ended early
+export class RetryableError extends Error {
+	override name = 'RetryableError';
+}
+
+function isRetryBudget(value: string): value is RetryBudget {
+	return value in DEFAULT_BUDGETS;
+}
+
+export function validateRetryBudgets(value: unknown): string | true {
+	if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+		return 'must be an object';
+	}
+	for (const [key, budget] of Object.entries(value)) {
+		if (!isRetryBudget(key)) {
+			return `unknown budget ${key} (expected ${Object.keys(DEFAULT_BUDGETS).join(', ')})`;
+		}
+		if (!Number.isInteger(budget) || budget < 0) {
+			return `${key} must be a non-negative integer`;
+		}
+	}
+	return true;
+}
+
+/**
+ * Overrides the default budgets, e.g. with the values from config.json
+ */
+export function configureRetries(
+	overrides: Partial<Record<RetryBudget, number>>,
+): void {
+	budgets = { ...DEFAULT_BUDGETS, ...overrides };
+}
+
+/**
+ * Parses a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(
+	value: string | null,
+	now = Date.now(),
+): number | undefined {
+	if (!value) {
+		return undefined;
+	}
+	if (/^\d+$/.test(value.trim())) {
+		return Number(value) * 1000;
+	}
+	const date = Date.parse(value);
+	return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Exponential backoff with "equal jitter": half of the delay is fixed, the other
+ * half random, so parallel jobs don't retry in lockstep. A Retry-After from the
+ * server raises the delay but never lowers it.
+ */
+export function getBackoffDelay(
+	attempt: number,
+	retryAfterMs?: number,
+): number {
+	const exponential = Math.min(
+		MAX_DELAY_MS,
+		BASE_DELAY_MS * 2 ** (attempt - 1),
+	);
+	const delay = exponential / 2 + (Math.random() * exponential) / 2;
+	return Math.round(Math.max(delay, retryAfterMs ?? 0));
+}
+
+// Decides whether an error is worth retrying. soundcloud.ts only exposes the
+// status in the message ("Status code 429"), fetch failures carry a code.
+// Only network codes are retried, file system errors fail right away.
+function classifyError(error: unknown): {
+	retryable: boolean;
+	reason: string;
+	status?: number;
+	retryAfterMs?: number;
+} {
+	if (error instanceof HttpStatusError) {
+		return {
+			retryable: RETRYABLE_STATUSES.has(error.status),
+			reason: `HTTP ${error.status}`,
+			status: error.status,
+			retryAfterMs: error.retryAfterMs,
+		};
+	}
+	if (error instanceof RetryableError) {
+		return { retryable: true, reason: error.message };
+	}
+	if (error instanceof Error) {
+		const status = Number(error.message.match(/^Status code (\d+)$/)?.[1]);
+		if (status) {
+			return {
+				retryable: RETRYABLE_STATUSES.has(status),
+				reason: `HTTP ${status}`,
+				status,
+			};
+		}
+		const code = (error as NodeJS.ErrnoException).code;
+		if (typeof code === 'string') {
+			return { retryable: isNetworkErrorCode(code), reason: code };
+		}
+	}
+	return {
+		retryable: false,
+		reason: error instanceof Error ? error.message : String(error),
+	};
+}
+
+export function formatRetry(info: RetryInfo): string {
+	return `${info.label} failed (${info.reason}), retrying in ${(info.delayMs / 1000).toFixed(1)}s (attempt ${info.attempt}/${info.maxAttempts})...`;
+}
+
+function waitForRetry(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(signal?.reason);
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort);
+			resolve();
+		}, ms);
+		signal?.addEventListener('abort', onAbort, { once: true });
+	});
+}
+
+// A 403/429 can be specific to the proxy's IP, so it is worth trying the next
+// proxy of the list once per proxy
+function isProxyBlock(status: number | undefined): boolean {
+	return (
+		status !== undefined &&
+		PROXY_ROTATION_STATUSES.has(status) &&
+		proxyCount() > 1
+	);
+}
+
+/**
+ * Runs the task, retrying 429/5xx responses and network errors with backoff
+ * until the budget is used up. Every retry is logged and reported to onRetry.
+ * With several proxies, a 403/429 switches to the next one and retries at once.
+ */
+export async function withRetry<T>(
+	task: (attempt: number) => Promise<T>,
+	options: RetryOptions,
+): Promise<T> {
+	const maxAttempts = budgets[options.budget] + 1;
+	let rotations = 0;
+	for (let attempt = 1; ; attempt++) {
+		options.signal?.throwIfAborted();
+		try {
+			return await task(attempt);
+		} catch (error) {
+			if (options.signal?.aborted || attempt >= maxAttempts) {
+				throw error;
+			}
+			const { retryable, reason, status, retryAfterMs } = classifyError(error);
+			const rotated =
+				isProxyBlock(status) && rotations < proxyCount() - 1 && rotateProxy();
+			if (rotated) {
+				rotations++;
+			} else if (
+				!retryable ||
+				(retryAfterMs !== undefined && retryAfterMs > MAX_RETRY_AFTER_MS)
+			) {
+				throw error;
+			}
+
+			const info: RetryInfo = {
+				label: options.label,
+				attempt: attempt + 1,
+				maxAttempts,
+				// the Retry-After of the previous proxy doesn't apply to the next
+				delayMs: rotated ? 0 : getBackoffDelay(attempt, retryAfterMs),
+				reason: rotated ? `${reason}, switched proxy` : reason,
+			};
+			console.log(`↻ ${formatRetry(info)}`);
+			options.onRetry?.(info);
+			await waitForRetry(info.delayMs, options.signal);
+		}
+	}
+}
+
+/**
+ * fetch through the configured proxy, with retries. Responses with a retryable
+ * status are retried; once the budget is used up they are thrown as
+ * HttpStatusError.
+ */
+export async function fetchWithRetry(
+	input: string | URL,
+	init: RequestInit,
+	options: RetryOptions,
+): Promise<Response> {
+	return await withRetry(async () => {
+		const response = await fetch(input, {
+			...init,
+			proxy: fetchProxy(),
+			signal: options.signal,
+		});
+		if (
+			RETRYABLE_STATUSES.has(response.status) ||
+			isProxyBlock(response.status)
+		) {
+			await response.body?.cancel();
+			throw new HttpStatusError(
+				response.status,
+				parseRetryAfter(response.headers.get('retry-after')),
+			);
+		}
+		return response;
+	}, options);
+}
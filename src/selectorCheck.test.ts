@@ -0,0 +1,54 @@
+import { describe, expect, test } from 'bun:test';
+import { checkSelectors, type SelectorCounts } from './selectorCheck';
+import Selectors from './selectors';
+
+function statusOf(counts: SelectorCounts, steps: string[], smartLink = false) {
+	return Object.fromEntries(
+		checkSelectors(counts, steps, smartLink).map((check) => [
+			check.key,
+			check.status,
+		]),
+	);
+}
+
+describe('checkSelectors', () => {
+	test('only requires the selectors of the steps on the gate', () => {
+		const counts: SelectorCounts = new Map([
+			[Selectors.DOWNLOAD_PROCESS_BUTTON, 1],
+			[Selectors.EMAIL_ADDRESS_INPUT, 1],
+		]);
+
+		const status = statusOf(counts, ['email', 'dw']);
+
+		expect(status.DOWNLOAD_PROCESS_BUTTON).toBe('found');
+		expect(status.EMAIL_ADDRESS_INPUT).toBe('found');
+		expect(status.EMAIL_NEXT_BUTTON).toBe('missing');
+		expect(status.EMAIL_NAME_INPUT).toBe('optional');
+		expect(status.DW_DOWNLOAD_BUTTON).toBe('missing');
+		expect(status.SP_LOGIN_BUTTON).toBe('not on this gate');
+		expect(status.HYPEDDIT_SMART_LINK_SECTION).toBe('not on this gate');
+		expect(status.SP_AUTH_ACCEPT_BUTTON).toBe('not checked');
+	});
+
+	test('reports the matching alternative and invalid ones', () => {
+		const counts: SelectorCounts = new Map([
+			[Selectors.DW_DOWNLOAD_BUTTON, 2],
+			[Selectors.HYPEDDIT_SMART_LINK_SECTION, -1],
+		]);
+
+		const checks = checkSelectors(counts, ['dw'], true);
+
+		expect(
+			checks.find((check) => check.key === 'DW_DOWNLOAD_BUTTON'),
+		).toMatchObject({
+			status: 'found',
+			match: { selector: '#gateDownloadButton', source: 'built-in' },
+		});
+		expect(
+			checks.find((check) => check.key === 'HYPEDDIT_SMART_LINK_SECTION'),
+		).toMatchObject({
+			status: 'missing',
+			invalid: [Selectors.HYPEDDIT_SMART_LINK_SECTION],
+		});
+	});
+});
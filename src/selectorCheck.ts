@@ -0,0 +1,116 @@
+import {
+	getSelectorAlternatives,
+	SELECTOR_KEYS,
+	type SelectorAlternative,
+	type SelectorKey,
+} from './selectors';
+
+// Decides which selectors a gate page has to match, for `validate-selectors`.
+
+// Login pages and gate popups, which the gate page itself doesn't contain
+const OTHER_PAGE_KEYS = new Set<SelectorKey>([
+	'SOUNDCLOUD_LIBRARY_LINK',
+	'SOUNDCLOUD_CAPTCHA_CONTAINER',
+	'SOUNDCLOUD_CAPTCHA_IFRAME',
+	'SOUNDCLOUD_CAPTCHA_SLIDER',
+	'SOUNDCLOUD_CAPTCHA_TRACK',
+	'SPOTIFY_ACCOUNT_SETTINGS_LINK',
+	'SC_SUBMIT_APPROVAL_BUTTON',
+	'SP_AUTH_ACCEPT_BUTTON',
+]);
+
+const SMART_LINK_KEYS = new Set<SelectorKey>([
+	'HYPEDDIT_SMART_LINK_SECTION',
+	'HYPEDDIT_SMART_LINK_HYPEDDIT_ANCHOR',
+]);
+
+// Elements only some posts have, e.g. skip buttons or one of the variants of
+// the SoundCloud gate
+const OPTIONAL_KEYS = new Set<SelectorKey>([
+	'EMAIL_NAME_INPUT',
+	'SC_SKIPPER_BUTTON',
+	'SC_STATUS_BUTTON',
+	'SC_STATUS_UNDONE_BUTTON',
+	'SC_NEXT_BUTTON',
+	'SC_COMMENT_TEXT_INPUT',
+	'SC_LOGIN_BUTTON',
+	'IG_SKIPPER_BUTTON',
+	'TK_SKIPPER_BUTTON',
+	'YT_SKIPPER_BUTTON',
+	'SP_SKIPPER_BUTTON',
+	'SP_OPT_IN_SECTION',
+	'SP_OPT_OUT_OPTION',
+]);
+
+// Gate step of the step-specific selectors, by key prefix
+const STEP_PREFIXES: Record<string, string> = {
+	EMAIL: 'email',
+	SC: 'sc',
+	IG: 'ig',
+	TK: 'tk',
+	YT: 'yt',
+	FB: 'fb',
+	SP: 'sp',
+	DW: 'dw',
+};
+
+export type SelectorStatus =
+	| 'found'
+	| 'missing'
+	| 'optional'
+	| 'not on this gate'
+	| 'not checked';
+
+export interface SelectorCheck {
+	key: SelectorKey;
+	status: SelectorStatus;
+	// first alternative that matched
+	match?: SelectorAlternative;
+	// alternatives that are not valid CSS
+	invalid: string[];
+}
+
+/**
+ * Matches per selector, as counted on the pages of the gate. A count of -1
+ * marks a selector the browser rejected as invalid.
+ */
+export type SelectorCounts = Map<string, number>;
+
+function stepOf(key: SelectorKey): string | undefined {
+	return STEP_PREFIXES[key.slice(0, key.indexOf('_'))];
+}
+
+export function checkSelectors(
+	counts: SelectorCounts,
+	// gate steps on the page, OR gates already split into their choices
+	steps: string[],
+	smartLink: boolean,
+): SelectorCheck[] {
+	return SELECTOR_KEYS.map((key) => {
+		const alternatives = getSelectorAlternatives(key);
+		const invalid = alternatives
+			.filter((alternative) => counts.get(alternative.selector) === -1)
+			.map((alternative) => alternative.selector);
+		if (OTHER_PAGE_KEYS.has(key)) {
+			return { key, status: 'not checked', invalid };
+		}
+		const step = stepOf(key);
+		if (
+			(step !== undefined && !steps.includes(step)) ||
+			(SMART_LINK_KEYS.has(key) && !smartLink)
+		) {
+			return { key, status: 'not on this gate', invalid };
+		}
+		const match = alternatives.find(
+			(alternative) => (counts.get(alternative.selector) ?? 0) > 0,
+		);
+		if (match) {
+			return { key, status: 'found', match, invalid };
+		}
+		return {
+			key,
+			status: OPTIONAL_KEYS.has(key) ? 'optional' : 'missing',
+			invalid,
+		};
+	});
+}
@@ -0,0 +1,174 @@
+import { afterEach, describe, expect, spyOn, test } from 'bun:test';
+import { mkdtemp, rm, utimes } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import Selectors, {
+	findSelectorSyntaxError,
+	getSelectorAlternatives,
+	loadSelectorPacks,
+	parseSelectorPack,
+	reloadSelectorPacks,
+} from './selectors';
+
+let dir: string | undefined;
+
+async function packsDir(packs: Record<string, unknown>): Promise<string> {
+	dir ??= await mkdtemp(join(tmpdir(), 'selector-packs-test-'));
+	for (const [name, pack] of Object.entries(packs)) {
+		await Bun.write(
+			join(dir, name),
+			typeof pack === 'string' ? pack : JSON.stringify(pack),
+		);
+	}
+	return dir;
+}
+
+afterEach(async () => {
+	// back to the built-in selectors
+	await loadSelectorPacks(join(tmpdir(), 'no-selector-packs'));
+	if (dir) {
+		await rm(dir, { recursive: true, force: true });
+		dir = undefined;
+	}
+});
+
+describe('parseSelectorPack', () => {
+	test('accepts a selector or a list of alternatives', () => {
+		expect(
+			parseSelectorPack(
+				{
+					version: 2,
+					selectors: {
+						DW_DOWNLOAD_BUTTON: ['#downloadNow', ' .download '],
+						SC_SKIPPER_BUTTON: '#skip_sc',
+					},
+				},
+				'hypeddit.json',
+			),
+		).toEqual({
+			name: 'hypeddit.json',
+			version: 2,
+			selectors: {
+				DW_DOWNLOAD_BUTTON: ['#downloadNow', '.download'],
+				SC_SKIPPER_BUTTON: ['#skip_sc'],
+			},
+		});
+	});
+
+	test('rejects invalid packs', () => {
+		expect(() => parseSelectorPack({ selectors: {} }, 'a.json')).toThrow(
+			'a.json: version must be an integer',
+		);
+		expect(() =>
+			parseSelectorPack(
+				{ version: 1, selectors: { DOWNLOAD_BUTTON: '#x' } },
+				'a.json',
+			),
+		).toThrow('unknown selector key DOWNLOAD_BUTTON');
+		expect(() =>
+			parseSelectorPack(
+				{ version: 1, selectors: { DW_DOWNLOAD_BUTTON: [] } },
+				'a.json',
+			),
+		).toThrow('DW_DOWNLOAD_BUTTON must be a selector or a non-empty list');
+		expect(() =>
+			parseSelectorPack(
+				{ version: 1, selectors: { DW_DOWNLOAD_BUTTON: ['#ok', 'a[href'] } },
+				'a.json',
+			),
+		).toThrow(
+			'a.json: DW_DOWNLOAD_BUTTON selector "a[href": missing closing ]',
+		);
+	});
+});
+
+describe('findSelectorSyntaxError', () => {
+	test.each([
+		'#gateDownloadButton',
+		'#all_steps > div',
+		'a.optOutOption, #login_to_sp ~ span + b',
+		'li:nth-child(2n+1):not(.done, .skipped)',
+		'a[href="/you/library"]',
+		"[data-label='a, b > c']",
+		'#id\\:with\\(escapes',
+		'div:has(> img)',
+	])('accepts %p', (selector) => {
+		expect(findSelectorSyntaxError(selector)).toBeNull();
+	});
+
+	test.each([
+		['a[href="/you"', 'missing closing ]'],
+		['a[href="/you]', 'missing closing "'],
+		['div:not(.done', 'missing closing )'],
+		['div)', 'unexpected )'],
+		['a(]', 'unexpected ]'],
+		['#a, , #b', 'unexpected ,'],
+		['#a >> #b', 'unexpected >'],
+		['> #a', 'unexpected >'],
+		['#a,', 'nothing after ,'],
+		['#a ~', 'nothing after ~'],
+	])('rejects %p', (selector, error) => {
+		expect(findSelectorSyntaxError(selector)).toBe(error);
+	});
+});
+
+describe('loadSelectorPacks', () => {
+	test('puts newer packs first and keeps the built-in selector last', async () => {
+		await loadSelectorPacks(
+			await packsDir({
+				'old.json': {
+					version: 1,
+					selectors: { DW_DOWNLOAD_BUTTON: ['#old', '#shared'] },
+				},
+				'new.json': {
+					version: 2,
+					selectors: { DW_DOWNLOAD_BUTTON: ['#new', '#shared'] },
+				},
+			}),
+		);
+
+		expect(Selectors.DW_DOWNLOAD_BUTTON).toBe(
+			'#new, #shared, #old, #gateDownloadButton',
+		);
+		expect(getSelectorAlternatives('DW_DOWNLOAD_BUTTON')).toContainEqual({
+			selector: '#old',
+			source: 'old.json',
+		});
+		expect(Selectors.SC_SKIPPER_BUTTON).toBe('#skipper_sc');
+	});
+
+	test('reports the file of an invalid pack', async () => {
+		const directory = await packsDir({ 'broken.json': '{ "version": 1,' });
+
+		await expect(loadSelectorPacks(directory)).rejects.toThrow(
+			'broken.json is not valid JSON',
+		);
+	});
+});
+
+describe('reloadSelectorPacks', () => {
+	test('reloads changed packs and keeps the last good ones', async () => {
+		const log = spyOn(console, 'log').mockImplementation(() => {});
+		const error = spyOn(console, 'error').mockImplementation(() => {});
+		const directory = await packsDir({
+			'pack.json': { version: 1, selectors: { DW_DOWNLOAD_BUTTON: '#first' } },
+		});
+
+		try {
+			expect(await reloadSelectorPacks(directory)).toBe(true);
+			expect(await reloadSelectorPacks(directory)).toBe(false);
+
+			await packsDir({ 'pack.json': '{' });
+			// a later mtime, even on file systems with a coarse resolution
+			const later = new Date(Date.now() + 10_000);
+			await utimes(join(directory, 'pack.json'), later, later);
+
+			expect(await reloadSelectorPacks(directory)).toBe(false);
+			expect(error).toHaveBeenCalled();
+			expect(Selectors.DW_DOWNLOAD_BUTTON).toBe('#first, #gateDownloadButton');
+		} finally {
+			log.mockRestore();
+			error.mockRestore();
+		}
+	});
+});
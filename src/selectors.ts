@@ -1,3 +1,19 @@
+import { readdir, stat } from 'node:fs/promises';
+import { join } from 'node:path';
+
+// CSS selectors of the browser flow. The built-in values below can be overridden
+// from JSON selector packs in ./selector-packs, so a renamed element on
+// Hypeddit can be fixed without a new release:
+//
+//   { "version": 3, "selectors": { "DW_DOWNLOAD_BUTTON": ["#newButton", ".dl"] } }
+//
+// Every key takes one selector or a list of alternatives. Packs with a higher
+// version come first, the built-in selector is always the last one. The
+// alternatives are used together as a CSS selector list, so whichever of them
+// is on the page matches, the first in document order if several do. A single
+// malformed alternative would break the whole list, so packs are checked for
+// that when they load.
+
 // Login preparation
 const SOUNDCLOUD_LIBRARY_LINK = 'a[href="/you/library"]';
 const SOUNDCLOUD_CAPTCHA_CONTAINER = 'div[id*="ddChallengeContainer"]';
@@ -63,7 +79,7 @@ const SP_AUTH_ACCEPT_BUTTON = '[data-testid="auth-accept"]';
 // Download gate
 const DW_DOWNLOAD_BUTTON = '#gateDownloadButton';
 
-export default {
+const DEFAULT_SELECTORS = {
 	SOUNDCLOUD_LIBRARY_LINK,
 	SOUNDCLOUD_CAPTCHA_CONTAINER,
 	SOUNDCLOUD_CAPTCHA_IFRAME,
@@ -104,4 +120,246 @@ export default {
 	SP_LOGIN_BUTTON,
 	SP_AUTH_ACCEPT_BUTTON,
 	DW_DOWNLOAD_BUTTON,
-} as const;
+};
+
+export type SelectorKey = keyof typeof DEFAULT_SELECTORS;
+
+export const SELECTOR_KEYS = Object.keys(DEFAULT_SELECTORS) as SelectorKey[];
+
+export const SELECTOR_PACKS_DIR = './selector-packs';
+
+export interface SelectorPack {
+	// file name of the pack
+	name: string;
+	version: number;
+	selectors: Partial<Record<SelectorKey, string[]>>;
+}
+
+export interface SelectorAlternative {
+	selector: string;
+	// pack file it comes from, or `built-in`
+	source: string;
+}
+
+let alternatives = buildAlternatives([]);
+// file names and modification times of the loaded packs
+let packsSignature = '';
+
+function buildAlternatives(
+	packs: SelectorPack[],
+): Record<SelectorKey, SelectorAlternative[]> {
+	const ordered = packs.toSorted(
+		(a, b) => b.version - a.version || a.name.localeCompare(b.name),
+	);
+	return Object.fromEntries(
+		SELECTOR_KEYS.map((key) => {
+			const list: SelectorAlternative[] = [];
+			for (const pack of ordered) {
+				for (const selector of pack.selectors[key] ?? []) {
+					list.push({ selector, source: pack.name });
+				}
+			}
+			list.push({ selector: DEFAULT_SELECTORS[key], source: 'built-in' });
+			const unique = list.filter(
+				(alternative, index) =>
+					list.findIndex((other) => other.selector === alternative.selector) ===
+					index,
+			);
+			return [key, unique];
+		}),
+	) as Record<SelectorKey, SelectorAlternative[]>;
+}
+
+const COMBINATORS = ',>+~';
+
+// Finds the mistakes that make a selector list unparsable: unbalanced quotes
+// and brackets, and combinators or commas without a selector on both sides.
+// Not a full CSS parser, the browser still rejects e.g. unknown pseudo-classes.
+export function findSelectorSyntaxError(selector: string): string | null {
+	const closing: string[] = [];
+	let quote: string | null = null;
+	// last character outside of whitespace, starting as if after a comma
+	let previous = ',';
+	for (let index = 0; index < selector.length; index++) {
+		const character = selector[index] ?? '';
+		if (character === '\\') {
+			index++;
+			previous = 'a';
+			continue;
+		}
+		if (quote) {
+			if (character === quote) {
+				quote = null;
+			}
+			continue;
+		}
+		if (character === '"' || character === "'") {
+			quote = character;
+		} else if (character === '(' || character === '[') {
+			closing.push(character === '(' ? ')' : ']');
+		} else if (character === ')' || character === ']') {
+			if (closing.pop() !== character) {
+				return `unexpected ${character}`;
+			}
+		} else if (
+			!closing.length &&
+			COMBINATORS.includes(character) &&
+			COMBINATORS.includes(previous)
+		) {
+			return `unexpected ${character}`;
+		}
+		if (character.trim()) {
+			previous = character;
+		}
+	}
+	if (quote) {
+		return `missing closing ${quote}`;
+	}
+	if (closing.length) {
+		return `missing closing ${closing.at(-1)}`;
+	}
+	if (COMBINATORS.includes(previous)) {
+		return `nothing after ${previous}`;
+	}
+	return null;
+}
+
+export function parseSelectorPack(raw: unknown, name: string): SelectorPack {
+	if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+		throw new Error(`${name} must be a JSON object`);
+	}
+	const { version, selectors } = raw as Record<string, unknown>;
+	if (typeof version !== 'number' || !Number.isInteger(version)) {
+		throw new Error(`${name}: version must be an integer`);
+	}
+	if (
+		typeof selectors !== 'object' ||
+		selectors === null ||
+		Array.isArray(selectors)
+	) {
+		throw new Error(`${name}: selectors must be an object`);
+	}
+	const pack: SelectorPack = { name, version, selectors: {} };
+	for (const [key, value] of Object.entries(selectors)) {
+		if (!SELECTOR_KEYS.includes(key as SelectorKey)) {
+			throw new Error(`${name}: unknown selector key ${key}`);
+		}
+		const list = typeof value === 'string' ? [value] : value;
+		if (
+			!Array.isArray(list) ||
+			!list.length ||
+			!list.every((selector) => typeof selector === 'string' && selector.trim())
+		) {
+			throw new Error(
+				`${name}: ${key} must be a selector or a non-empty list of selectors`,
+			);
+		}
+		pack.selectors[key as SelectorKey] = list.map((selector) => {
+			const error = findSelectorSyntaxError(selector.trim());
+			if (error) {
+				throw new Error(`${name}: ${key} selector "${selector}": ${error}`);
+			}
+			return selector.trim();
+		});
+	}
+	return pack;
+}
+
+async function readPackSignature(directory: string): Promise<string> {
+	let names: string[];
+	try {
+		names = await readdir(directory);
+	} catch {
+		return '';
+	}
+	const files = await Promise.all(
+		names
+			.filter((name) => name.endsWith('.json'))
+			.sort()
+			.map(
+				async (name) =>
+					`${name}:${(await stat(join(directory, name))).mtimeMs}`,
+			),
+	);
+	return files.join('|');
+}
+
+/**
+ * Reads all packs of `directory` and uses them from now on. Throws on an
+ * invalid pack and keeps the previous selectors then.
+ */
+export async function loadSelectorPacks(
+	directory = SELECTOR_PACKS_DIR,
+): Promise<SelectorPack[]> {
+	const signature = await readPackSignature(directory);
+	const names = signature
+		? signature.split('|').map((file) => file.slice(0, file.lastIndexOf(':')))
+		: [];
+	const packs: SelectorPack[] = [];
+	for (const name of names) {
+		let raw: unknown;
+		try {
+			raw = await Bun.file(join(directory, name)).json();
+		} catch (error) {
+			throw new Error(
+				`${name} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+		packs.push(parseSelectorPack(raw, name));
+	}
+	alternatives = buildAlternatives(packs);
+	packsSignature = signature;
+	return packs;
+}
+
+/**
+ * Loads the packs again when a file was added, changed or removed since the
+ * last load. A broken pack is logged and the previous selectors stay in use,
+ * so a long-running server doesn't fail on a half-written file.
+ */
+export async function reloadSelectorPacks(
+	directory = SELECTOR_PACKS_DIR,
+): Promise<boolean> {
+	if ((await readPackSignature(directory)) === packsSignature) {
+		return false;
+	}
+	try {
+		const packs = await loadSelectorPacks(directory);
+		console.log(
+			packs.length
+				? `Loaded selector packs: ${packs.map((pack) => `${pack.name} (v${pack.version})`).join(', ')}`
+				: 'No selector packs found, using the built-in selectors',
+		);
+		return true;
+	} catch (error) {
+		console.error(
+			`Failed to load selector packs, keeping the previous selectors: ${error instanceof Error ? error.message : String(error)}`,
+		);
+		return false;
+	}
+}
+
+export function getSelectorAlternatives(
+	key: SelectorKey,
+): SelectorAlternative[] {
+	return alternatives[key];
+}
+
+// Reading a key always returns the selectors of the packs loaded last
+const Selectors = Object.defineProperties(
+	{} as Readonly<Record<SelectorKey, string>>,
+	Object.fromEntries(
+		SELECTOR_KEYS.map((key) => [
+			key,
+			{
+				enumerable: true,
+				get: () =>
+					alternatives[key]
+						.map((alternative) => alternative.selector)
+						.join(', '),
+			},
+		]),
+	),
+);
+
+export default Selectors;
@@ -1,17 +1,50 @@
-import { join } from 'node:path';
+import { basename, join } from 'node:path';
 import type { SoundcloudTrack } from 'soundcloud.ts';
 import { AudioProcessor } from './audioProcessor';
-import { HypedditDownloader } from './hypeddit';
+import { BrowserPool } from './browserPool';
+import { loadConfig } from './config';
+import {
+	getJobDiagnosticsPath,
+	hasDiagnostics,
+	readDiagnostics,
+	removeOldDiagnostics,
+} from './diagnostics';
+import { DownloadQueue } from './downloadQueue';
+import { HypedditDownloader, launchBrowser } from './hypeddit';
 import { HypedditHttpDownloader } from './hypedditHttp';
-import { jobStore } from './jobStore';
+import {
+	DEFAULT_OUTPUT_FORMAT,
+	formatOutputFormat,
+	getAudioMimeType,
+	getOutputFormatSpec,
+	type OutputFormat,
+	parseOutputFormat,
+} from './outputFormat';
+import {
+	DEFAULT_OUTPUT_OPTIONS,
+	type FileExistsAction,
+	moveToOutput,
+	type OutputOptions,
+} from './outputPath';
+import { configureProxies } from './proxy';
+import { configureRetries, formatRetry, type RetryListener } from './retry';
+import { reloadSelectorPacks } from './selectors';
 import { SoundcloudClient } from './soundcloud';
-import type { Job, Metadata } from './types';
+import { SqliteJobStore } from './sqliteJobStore';
+import { DEFAULT_EXPIRY_WARNING_DAYS, getStatus } from './status';
+import { configureTiming } from './timing';
+import type { Job, JobStage, Metadata } from './types';
 import {
 	extractHypedditUrl,
 	getDefaultMetadata,
 	getFfmpegBin,
 	getFfprobeBin,
+	getSoundcloudUrlKind,
+	METADATA_FIELDS,
+	parseMetadataBody,
+	removeDownload,
 	validateHypedditUrl,
+	validateMetadataField,
 	validateSoundcloudUrl,
 } from './utils';
 
@@ -30,10 +63,68 @@ const SC_COMMENT = getRequiredEnv('SC_COMMENT');
 const HYPEDDIT_NAME = getRequiredEnv('HYPEDDIT_NAME');
 const HYPEDDIT_EMAIL = getRequiredEnv('HYPEDDIT_EMAIL');
 
+const config = await loadConfig();
+if (config) {
+	configureRetries(config.retries);
+	await configureProxies(config.proxies);
+	configureTiming(config.timing);
+}
+await reloadSelectorPacks();
+
 const soundcloudClient = new SoundcloudClient();
 const audioProcessor = new AudioProcessor(ffmpegBin, ffprobeBin);
 
-let hypedditDownloader: HypedditDownloader | null = null;
+// Jobs survive server restarts; finished ones are dropped after a day.
+const jobStore = new SqliteJobStore('jobs.sqlite');
+const JOB_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+jobStore.cleanup(JOB_MAX_AGE_MS);
+await removeOldDiagnostics(JOB_MAX_AGE_MS);
+setInterval(
+	() => {
+		jobStore.cleanup(JOB_MAX_AGE_MS);
+		void removeOldDiagnostics(JOB_MAX_AGE_MS);
+	},
+	60 * 60 * 1000,
+);
+
+// Browserless downloads are plain HTTP and may run side by side. Browser jobs
+// share the persistent ./browser-data profile, which only one Chromium instance
+// can use at a time.
+const browserlessQueue = new DownloadQueue(
+	config?.maxBrowserlessDownloads ?? 3,
+);
+const browserQueue = new DownloadQueue(1);
+// One Chromium stays open between browser jobs; the server handles the signals
+const browserPool = new BrowserPool({
+	launch: () =>
+		launchBrowser({
+			headless: true,
+			handleSIGINT: false,
+			handleSIGTERM: false,
+			handleSIGHUP: false,
+		}),
+	maxJobs: config?.browserMaxJobs ?? 20,
+});
+
+// Used when a request picks no format of its own
+const configOutputFormat: OutputFormat = config
+	? parseOutputFormat(config.outputFormat)
+	: DEFAULT_OUTPUT_FORMAT;
+
+// Processed files are moved like in the CLI, see README "Output files"
+const outputOptions: OutputOptions = {
+	directory: config?.outputDirectory ?? DEFAULT_OUTPUT_OPTIONS.directory,
+	template: config?.outputTemplate ?? DEFAULT_OUTPUT_OPTIONS.template,
+	onFileExists:
+		(config?.onFileExists as FileExistsAction | undefined) ??
+		DEFAULT_OUTPUT_OPTIONS.onFileExists,
+};
+
+// Stages after which a job reports no more progress, ending its event stream
+const FINAL_STAGES: JobStage[] = ['ready', 'error', 'cancelled', 'interrupted'];
+
+// Abort controllers of jobs between /start and the end of the download process.
+const runningJobs = new Map<string, AbortController>();
 
 function serializeTrack(track: SoundcloudTrack): Job['track'] {
 	return {
@@ -56,9 +147,30 @@ function serializeTrack(track: SoundcloudTrack): Job['track'] {
 	};
 }
 
+// Shows a retried request as the job's progress message, keeping its stage
+function reportRetries(jobId: string): RetryListener {
+	return (info) => {
+		const progress = jobStore.get(jobId)?.progress;
+		if (progress) {
+			jobStore.updateProgress(
+				jobId,
+				progress.stage,
+				formatRetry(info),
+				progress.percent,
+			);
+		}
+	};
+}
+
 async function runDownloadProcess(jobId: string): Promise<void> {
 	const job = jobStore.get(jobId);
 	if (!job?.hypedditUrl) return;
+	const { hypedditUrl } = job;
+
+	const abortController = new AbortController();
+	const { signal } = abortController;
+	runningJobs.set(jobId, abortController);
+	let downloadFilename: string | null = null;
 
 	try {
 		const emitProgress = (
@@ -68,57 +180,82 @@ async function runDownloadProcess(jobId: string): Promise<void> {
 			extra?: Partial<Job['progress']>,
 		) => jobStore.updateProgress(jobId, stage, message, percent, extra);
 
+		const emitQueuePosition =
+			(kind: 'download' | 'browser') => (queuePosition: number) =>
+				emitProgress(
+					'queued',
+					`Waiting for a free ${kind} slot (position ${queuePosition})...`,
+					10,
+					{ queuePosition },
+				);
+
 		// Fast path: gates that are purely client-side (email + social follow/like/
 		// repost buttons) can be satisfied with plain HTTP, skipping the browser.
-		jobStore.updateProgress(
-			jobId,
-			'handling_gates',
-			'Trying browserless download...',
-			15,
-		);
-		const httpDownloader = new HypedditHttpDownloader(
-			{
-				name: HYPEDDIT_NAME,
-				email: HYPEDDIT_EMAIL,
-				comment: SC_COMMENT,
-				headless: true,
+		downloadFilename = await browserlessQueue.run(
+			() => {
+				jobStore.updateProgress(
+					jobId,
+					'handling_gates',
+					'Trying browserless download...',
+					15,
+				);
+				const httpDownloader = new HypedditHttpDownloader(
+					{
+						name: HYPEDDIT_NAME,
+						email: HYPEDDIT_EMAIL,
+						comment: SC_COMMENT,
+						headless: true,
+					},
+					emitProgress,
+					signal,
+				);
+				return httpDownloader.tryDownload(hypedditUrl);
 			},
-			emitProgress,
+			{ onPosition: emitQueuePosition('download'), signal },
 		);
-		let downloadFilename = await httpDownloader.tryDownload(job.hypedditUrl);
 
 		// Fall back to the browser for gates that need real verification (Spotify, ...).
 		if (!downloadFilename) {
-			jobStore.updateProgress(
-				jobId,
-				'initializing_browser',
-				'Launching browser...',
-				10,
-			);
-
-			hypedditDownloader = new HypedditDownloader({
-				name: HYPEDDIT_NAME,
-				email: HYPEDDIT_EMAIL,
-				comment: SC_COMMENT,
-				headless: true,
-			});
-
-			hypedditDownloader.setProgressCallback(emitProgress);
-
-			await hypedditDownloader.initialize();
-
-			jobStore.updateProgress(
-				jobId,
-				'handling_gates',
-				'Processing Hypeddit gates...',
-				25,
-			);
+			downloadFilename = await browserQueue.run(
+				async () => {
+					jobStore.updateProgress(
+						jobId,
+						'initializing_browser',
+						'Preparing browser...',
+						10,
+					);
 
-			downloadFilename = await hypedditDownloader.downloadAudio(
-				job.hypedditUrl,
+					// picks up selector packs changed while the server is running
+					await reloadSelectorPacks();
+					const hypedditDownloader = new HypedditDownloader({
+						name: HYPEDDIT_NAME,
+						email: HYPEDDIT_EMAIL,
+						comment: SC_COMMENT,
+						headless: true,
+					});
+					hypedditDownloader.setProgressCallback(emitProgress);
+					hypedditDownloader.setAbortSignal(signal);
+					hypedditDownloader.setDiagnosticsPath(getJobDiagnosticsPath(jobId));
+
+					return browserPool.run(async (browser) => {
+						try {
+							await hypedditDownloader.attachBrowser(browser);
+
+							jobStore.updateProgress(
+								jobId,
+								'handling_gates',
+								'Processing Hypeddit gates...',
+								25,
+							);
+
+							return await hypedditDownloader.downloadAudio(hypedditUrl);
+						} finally {
+							await hypedditDownloader.close();
+						}
+					});
+				},
+				{ onPosition: emitQueuePosition('browser'), signal },
 			);
-			await hypedditDownloader.close();
-			hypedditDownloader = null;
 		}
 
 		if (!downloadFilename) {
@@ -137,22 +274,34 @@ async function runDownloadProcess(jobId: string): Promise<void> {
 
 		const artworkFetchUrl = job.track?.artworkUrl || job.track?.user.avatarUrl;
 		if (artworkFetchUrl) {
-			const artwork = await soundcloudClient.fetchArtwork(artworkFetchUrl);
+			const artwork = await soundcloudClient.fetchArtwork(
+				artworkFetchUrl,
+				reportRetries(jobId),
+			);
 			jobStore.update(jobId, {
 				artworkBuffer: artwork.buffer,
 				artworkFileName: artwork.fileName,
 			});
 		}
+		signal.throwIfAborted();
 
 		jobStore.updateProgress(jobId, 'ready', 'Ready for metadata editing', 100);
 	} catch (error) {
-		if (hypedditDownloader) {
-			await hypedditDownloader.close();
-			hypedditDownloader = null;
+		if (signal.aborted) {
+			if (downloadFilename) {
+				await removeDownload(downloadFilename);
+			}
+			jobStore.update(jobId, {
+				downloadFilename: null,
+				progress: { stage: 'cancelled', message: 'Cancelled', percent: 0 },
+			});
+			return;
 		}
 		const message =
 			error instanceof Error ? error.message : 'Unknown error occurred';
 		jobStore.setError(jobId, message);
+	} finally {
+		runningJobs.delete(jobId);
 	}
 }
 
@@ -231,26 +380,27 @@ const server = Bun.serve({
 
 		'/api/logins/initialize': {
 			POST: async () => {
-				let loginDownloader: HypedditDownloader | null = null;
 				try {
-					loginDownloader = new HypedditDownloader({
-						name: HYPEDDIT_NAME,
-						email: HYPEDDIT_EMAIL,
-						comment: SC_COMMENT,
-						headless: false,
+					// uses the same browser profile as download jobs, so wait for them
+					await browserQueue.run(async () => {
+						// a visible browser, the warm one is started again by the next job
+						await browserPool.stop();
+						const loginDownloader = new HypedditDownloader({
+							name: HYPEDDIT_NAME,
+							email: HYPEDDIT_EMAIL,
+							comment: SC_COMMENT,
+							headless: false,
+						});
+						try {
+							await loginDownloader.initialize();
+							await loginDownloader.prepareLogins();
+						} finally {
+							await loginDownloader.close();
+						}
 					});
 
-					await loginDownloader.initialize();
-					await loginDownloader.prepareLogins();
-					await loginDownloader.close();
-					loginDownloader = null;
-
 					return jsonResponse({ success: true });
 				} catch (error) {
-					if (loginDownloader) {
-						await loginDownloader.close();
-						loginDownloader = null;
-					}
 					return jsonResponse(
 						{
 							error: error instanceof Error ? error.message : 'Unknown error',
@@ -261,6 +411,32 @@ const server = Bun.serve({
 			},
 		},
 
+		// Health check for the footer of the Web UI; `days` sets how early
+		// expiring logins warn
+		'/api/status': {
+			GET: async (req) => {
+				const days = new URL(req.url).searchParams.get('days');
+				const warningDays =
+					days === null ? DEFAULT_EXPIRY_WARNING_DAYS : Number(days);
+				if (!Number.isInteger(warningDays) || warningDays < 0) {
+					return jsonResponse(
+						{ error: 'days must be a whole number of days' },
+						{ status: 400 },
+					);
+				}
+				return jsonResponse(await getStatus(warningDays));
+			},
+		},
+
+		// Defaults of the Web UI that come from config.json
+		'/api/config': {
+			GET: () =>
+				jsonResponse({
+					outputFormat: getOutputFormatSpec(configOutputFormat),
+					outputFormatLabel: formatOutputFormat(configOutputFormat),
+				}),
+		},
+
 		'/api/job': {
 			POST: async (req) => {
 				try {
@@ -281,6 +457,15 @@ const server = Bun.serve({
 					if (validation !== true) {
 						return jsonResponse({ error: validation }, { status: 400 });
 					}
+					if (getSoundcloudUrlKind(soundcloudUrl) !== 'track') {
+						return jsonResponse(
+							{
+								error:
+									'Playlists and profiles are only supported by the CLI. Please enter a track URL.',
+							},
+							{ status: 400 },
+						);
+					}
 
 					const job = jobStore.create(soundcloudUrl);
 					jobStore.updateProgress(
@@ -292,7 +477,10 @@ const server = Bun.serve({
 
 					let track: SoundcloudTrack;
 					try {
-						track = await soundcloudClient.getTrack(soundcloudUrl);
+						track = await soundcloudClient.getTrack(
+							soundcloudUrl,
+							reportRetries(job.id),
+						);
 					} catch (error) {
 						jobStore.setError(
 							job.id,
@@ -301,7 +489,7 @@ const server = Bun.serve({
 						return jsonResponse(
 							{
 								jobId: job.id,
-								error: job.error,
+								error: jobStore.get(job.id)?.error,
 							},
 							{ status: 400 },
 						);
@@ -352,6 +540,32 @@ const server = Bun.serve({
 			},
 		},
 
+		'/api/hypeddit/inspect': {
+			GET: async (req) => {
+				const url = new URL(req.url).searchParams.get('url') ?? '';
+				const validation = validateHypedditUrl(url);
+				if (validation !== true) {
+					return jsonResponse({ error: validation }, { status: 400 });
+				}
+				try {
+					const inspection = await new HypedditHttpDownloader({
+						name: HYPEDDIT_NAME,
+						email: HYPEDDIT_EMAIL,
+						comment: SC_COMMENT,
+						headless: true,
+					}).inspect(url);
+					return jsonResponse(inspection);
+				} catch (error) {
+					return jsonResponse(
+						{
+							error: error instanceof Error ? error.message : 'Unknown error',
+						},
+						{ status: 502 },
+					);
+				}
+			},
+		},
+
 		'/api/job/:id/hypeddit': {
 			POST: async (req) => {
 				try {
@@ -411,7 +625,9 @@ const server = Bun.serve({
 					if (
 						job.progress.stage !== 'pending' &&
 						job.progress.stage !== 'waiting_hypeddit' &&
-						job.progress.stage !== 'error'
+						job.progress.stage !== 'error' &&
+						job.progress.stage !== 'interrupted' &&
+						job.progress.stage !== 'cancelled'
 					) {
 						return jsonResponse(
 							{ error: 'Job is already in progress or completed' },
@@ -419,9 +635,12 @@ const server = Bun.serve({
 						);
 					}
 
+					jobStore.updateProgress(jobId, 'queued', 'Queued for download', 10, {
+						queuePosition: browserlessQueue.pending + 1,
+					});
 					runDownloadProcess(jobId);
 
-					return jsonResponse({ success: true, message: 'Download started' });
+					return jsonResponse({ success: true, message: 'Download queued' });
 				} catch (error) {
 					return jsonResponse(
 						{
@@ -433,6 +652,25 @@ const server = Bun.serve({
 			},
 		},
 
+		'/api/job/:id/cancel': {
+			POST: (req) => {
+				const jobId = req.params.id;
+				const job = jobStore.get(jobId);
+
+				if (!job) {
+					return jsonResponse({ error: 'Job not found' }, { status: 404 });
+				}
+
+				const abortController = runningJobs.get(jobId);
+				if (!abortController) {
+					return jsonResponse({ error: 'Job is not running' }, { status: 400 });
+				}
+
+				abortController.abort(new Error('Job cancelled'));
+				return jsonResponse({ success: true, message: 'Cancelling job' });
+			},
+		},
+
 		'/api/job/:id/events': {
 			GET: (req) => {
 				const jobId = req.params.id;
@@ -448,6 +686,11 @@ const server = Bun.serve({
 
 						const initialData = `data: ${JSON.stringify(job.progress)}\n\n`;
 						controller.enqueue(encoder.encode(initialData));
+						// e.g. a job interrupted by a restart, which won't change anymore
+						if (FINAL_STAGES.includes(job.progress.stage)) {
+							controller.close();
+							return;
+						}
 
 						const unsubscribe = jobStore.subscribe(jobId, (progress) => {
 							const data = `data: ${JSON.stringify(progress)}\n\n`;
@@ -457,7 +700,7 @@ const server = Bun.serve({
 								unsubscribe();
 							}
 
-							if (progress.stage === 'ready' || progress.stage === 'error') {
+							if (FINAL_STAGES.includes(progress.stage)) {
 								setTimeout(() => {
 									try {
 										controller.close();
@@ -485,7 +728,7 @@ const server = Bun.serve({
 		},
 
 		'/api/job/:id': {
-			GET: (req) => {
+			GET: async (req) => {
 				const jobId = req.params.id;
 				const job = jobStore.get(jobId);
 
@@ -502,11 +745,50 @@ const server = Bun.serve({
 					progress: job.progress,
 					downloadFilename: job.downloadFilename,
 					hasArtwork: !!job.artworkBuffer,
+					hasDiagnostics: await hasDiagnostics(getJobDiagnosticsPath(jobId)),
 					error: job.error,
 				});
 			},
 		},
 
+		'/api/job/:id/history': {
+			GET: (req) => {
+				const jobId = req.params.id;
+				const job = jobStore.get(jobId);
+
+				if (!job) {
+					return jsonResponse({ error: 'Job not found' }, { status: 404 });
+				}
+
+				return jsonResponse({ history: jobStore.getProgressHistory(jobId) });
+			},
+		},
+
+		'/api/job/:id/diagnostics': {
+			GET: async (req) => {
+				const jobId = req.params.id;
+				const job = jobStore.get(jobId);
+
+				if (!job) {
+					return jsonResponse({ error: 'Job not found' }, { status: 404 });
+				}
+
+				const files = await readDiagnostics(getJobDiagnosticsPath(jobId));
+				if (!files) {
+					return jsonResponse(
+						{ error: 'No diagnostics available' },
+						{ status: 404 },
+					);
+				}
+
+				const archive = new Bun.Archive(files, { compress: 'gzip' });
+				return fileResponse(await archive.blob(), {
+					'Content-Type': 'application/gzip',
+					'Content-Disposition': `attachment; filename="diagnostics-${jobId}.tar.gz"`,
+				});
+			},
+		},
+
 		'/api/job/:id/artwork': {
 			GET: (req) => {
 				const jobId = req.params.id;
@@ -552,17 +834,20 @@ const server = Bun.serve({
 
 					const contentType = req.headers.get('content-type') || '';
 					let metadata: Metadata;
+					let rawOutputFormat: string | undefined;
 					let customArtwork: { buffer: ArrayBuffer; fileName: string } | null =
 						null;
 
 					if (contentType.includes('multipart/form-data')) {
 						const formData = await req.formData();
-						metadata = {
-							title: formData.get('title')?.toString() || undefined,
-							artist: formData.get('artist')?.toString() || undefined,
-							album: formData.get('album')?.toString() || undefined,
-							genre: formData.get('genre')?.toString() || undefined,
-						};
+						metadata = Object.fromEntries(
+							METADATA_FIELDS.map((field) => [
+								field,
+								formData.get(field)?.toString() || undefined,
+							]),
+						);
+						rawOutputFormat =
+							formData.get('outputFormat')?.toString() || undefined;
 
 						const artworkFile = formData.get('artwork');
 						if (artworkFile instanceof File) {
@@ -572,8 +857,39 @@ const server = Bun.serve({
 							};
 						}
 					} else {
-						const body = await req.json();
-						metadata = body as Metadata;
+						const body = parseMetadataBody(await req.json());
+						if (typeof body === 'string') {
+							return jsonResponse({ error: body }, { status: 400 });
+						}
+						metadata = body.metadata;
+						rawOutputFormat = body.outputFormat;
+					}
+
+					for (const field of METADATA_FIELDS) {
+						const validation = validateMetadataField(
+							field,
+							String(metadata[field] ?? ''),
+						);
+						if (validation !== true) {
+							return jsonResponse({ error: validation }, { status: 400 });
+						}
+					}
+
+					let outputFormat = configOutputFormat;
+					if (rawOutputFormat) {
+						try {
+							outputFormat = parseOutputFormat(rawOutputFormat);
+						} catch (error) {
+							return jsonResponse(
+								{
+									error:
+										error instanceof Error
+											? error.message
+											: 'Invalid output format',
+								},
+								{ status: 400 },
+							);
+						}
 					}
 
 					jobStore.updateProgress(
@@ -604,21 +920,31 @@ const server = Bun.serve({
 						metadata,
 						artwork,
 						'always',
+						outputFormat,
 					);
 
-					const outputFilename = outputPath.split('/').pop() || outputPath;
-					jobStore.update(jobId, { outputFilename });
+					const { path: savedPath, skipped } = await moveToOutput(
+						outputPath,
+						metadata,
+						outputOptions,
+					);
+					const outputFilename = basename(savedPath);
+					jobStore.update(jobId, { outputFilename, outputPath: savedPath });
 
 					jobStore.updateProgress(
 						jobId,
 						'ready',
-						'Audio processing complete',
+						skipped
+							? 'Output file already exists, kept the existing one'
+							: 'Audio processing complete',
 						100,
 					);
 
 					return jsonResponse({
 						success: true,
 						outputFilename,
+						outputPath: savedPath,
+						skipped,
 					});
 				} catch (error) {
 					return jsonResponse(
@@ -645,26 +971,34 @@ const server = Bun.serve({
 					return jsonResponse({ error: 'No file available' }, { status: 404 });
 				}
 
-				const filePath = join('./downloads', filename);
+				// jobs processed before output paths were stored are in ./downloads
+				const filePath = job.outputPath ?? join('./downloads', filename);
 
 				return new Response(Bun.file(filePath), {
 					headers: {
 						...corsHeaders,
-						'Content-Type': 'audio/mpeg',
+						'Content-Type': getAudioMimeType(filename),
 						'Content-Disposition': `attachment; filename="${filename}"`,
 					},
 				});
 			},
 		},
 	},
-	error: async (err) => {
+	error: (err) => {
 		console.error('Server error:', err);
-		if (hypedditDownloader) {
-			await hypedditDownloader.close();
-			hypedditDownloader = null;
-		}
 		return jsonResponse({ error: 'Internal Server Error' }, { status: 500 });
 	},
 });
 
 console.log(`Server is running on ${server.url}`);
+
+// Closes the warm browser too, which would otherwise outlive the server
+async function shutdown(signal: NodeJS.Signals) {
+	console.log(`Received ${signal}, shutting down...`);
+	// open SSE streams would keep a graceful stop waiting
+	await server.stop(true);
+	await browserPool.close();
+	process.exit(0);
+}
+process.once('SIGTERM', () => void shutdown('SIGTERM'));
+process.once('SIGINT', () => void shutdown('SIGINT'));
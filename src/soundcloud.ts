@@ -1,7 +1,12 @@
 import { join } from 'node:path';
 import { confirm } from '@inquirer/prompts';
 import Soundcloud, { type SoundcloudTrack } from 'soundcloud.ts';
-import { extractHypedditUrl } from './utils';
+import { fetchProxy } from './proxy';
+import { fetchWithRetry, type RetryListener, withRetry } from './retry';
+import { extractHypedditUrl, getSoundcloudUrlKind } from './utils';
+
+// Largest page size the v2 API accepts for collection endpoints.
+const PAGE_SIZE = 200;
 
 export class SoundcloudClient {
 	private soundcloud: Soundcloud;
@@ -17,10 +22,119 @@ export class SoundcloudClient {
 		}
 
 		this.soundcloud = new Soundcloud(clientId, oauthToken);
+		// Hook added by patches/soundcloud.ts@0.7.4.patch, merged into the fetch
+		// options of every API request
+		this.soundcloud.api.requestOptions = (): BunFetchRequestInit => ({
+			proxy: fetchProxy(),
+		});
+	}
+
+	async getTrack(url: string, onRetry?: RetryListener) {
+		return await withRetry(() => this.soundcloud.tracks.get(url), {
+			budget: 'soundcloud',
+			label: 'SoundCloud track lookup',
+			onRetry,
+		});
+	}
+
+	// Resolves a track, playlist (/sets/...) or profile URL to the tracks it contains.
+	async getTracks(url: string): Promise<SoundcloudTrack[]> {
+		switch (getSoundcloudUrlKind(url)) {
+			case 'track':
+				return [await this.getTrack(url)];
+			case 'playlist':
+				return await this.getPlaylistTracks(url);
+			case 'user':
+				return await this.getUserTracks(url);
+			default:
+				throw new Error(`Unsupported SoundCloud URL: ${url}`);
+		}
+	}
+
+	async getPlaylistTracks(url: string): Promise<SoundcloudTrack[]> {
+		// playlists.get also resolves the track stubs SoundCloud returns beyond the
+		// first few entries
+		const playlist = await withRetry(() => this.soundcloud.playlists.get(url), {
+			budget: 'soundcloud',
+			label: 'SoundCloud playlist lookup',
+		});
+		console.log(
+			`Found ${playlist.tracks.length} tracks in playlist ${playlist.title}`,
+		);
+		return playlist.tracks;
+	}
+
+	async getUserTracks(url: string): Promise<SoundcloudTrack[]> {
+		const user = await withRetry(() => this.soundcloud.users.get(url), {
+			budget: 'soundcloud',
+			label: 'SoundCloud profile lookup',
+		});
+		const tracks = await this.getAllPages<SoundcloudTrack>(
+			`users/${user.id}/tracks`,
+		);
+		console.log(`Found ${tracks.length} tracks uploaded by ${user.username}`);
+		return tracks;
+	}
+
+	// Splits tracks into those with a free-download Hypeddit link and those without.
+	partitionByHypedditUrl(tracks: SoundcloudTrack[]): {
+		gated: Array<{ track: SoundcloudTrack; hypedditUrl: string }>;
+		ungated: SoundcloudTrack[];
+	} {
+		const gated: Array<{ track: SoundcloudTrack; hypedditUrl: string }> = [];
+		const ungated: SoundcloudTrack[] = [];
+		for (const track of tracks) {
+			const hypedditUrl = extractHypedditUrl(track);
+			if (hypedditUrl) {
+				gated.push({ track, hypedditUrl: hypedditUrl.url });
+			} else {
+				ungated.push(track);
+			}
+		}
+		return { gated, ungated };
+	}
+
+	// Follows next_href until the collection is exhausted.
+	private async getAllPages<T>(endpoint: string): Promise<T[]> {
+		const items: T[] = [];
+		let page: { collection?: T[]; next_href?: string | null } =
+			await this.getV2(endpoint, {
+				limit: PAGE_SIZE,
+				linked_partitioning: 1,
+			});
+		while (true) {
+			items.push(...(page.collection ?? []));
+			if (!page.next_href) {
+				return items;
+			}
+			const nextUrl = new URL(page.next_href);
+			page = await withRetry(
+				() =>
+					this.soundcloud.api.getURL(
+						`${nextUrl.origin}${nextUrl.pathname}`,
+						Object.fromEntries(nextUrl.searchParams),
+					),
+				{ budget: 'soundcloud', label: 'SoundCloud page request' },
+			);
+		}
+	}
+
+	private async getV2(
+		endpoint: string,
+		params?: Record<string, string | number>,
+	) {
+		return await withRetry(() => this.soundcloud.api.getV2(endpoint, params), {
+			budget: 'soundcloud',
+			label: `SoundCloud ${endpoint}`,
+		});
 	}
 
-	async getTrack(url: string) {
-		return await this.soundcloud.tracks.get(url);
+	// Deletes count towards the cleanup budget, a failure only skips one item
+	private async deleteV2(endpoint: string) {
+		return await withRetry(() => this.soundcloud.api.deleteV2(endpoint), {
+			budget: 'cleanup',
+			label: `SoundCloud delete ${endpoint}`,
+		});
 	}
 
 	async getHypedditURL(track: SoundcloudTrack) {
@@ -52,6 +166,7 @@ export class SoundcloudClient {
 
 	async fetchArtwork(
 		artworkUrl: string,
+		onRetry?: RetryListener,
 	): Promise<{ buffer: ArrayBuffer; fileName: string }> {
 		const originalArtworkUrl = artworkUrl.replace('large', 'original');
 		const fileName = originalArtworkUrl.split('/').pop() || 'artwork.jpg';
@@ -62,7 +177,11 @@ export class SoundcloudClient {
 				fileName,
 			};
 		}
-		const response = await fetch(originalArtworkUrl);
+		const response = await fetchWithRetry(
+			originalArtworkUrl,
+			{},
+			{ budget: 'artwork', label: 'Artwork download', onRetry },
+		);
 		if (!response.ok) {
 			throw new Error(`Failed to fetch artwork: ${response.statusText}`);
 		}
@@ -70,6 +189,17 @@ export class SoundcloudClient {
 		return { buffer, fileName };
 	}
 
+	// The account of SC_OAUTH_TOKEN, fails if the token was rejected
+	async getMe(): Promise<{ id: string; username: string }> {
+		const me = await this.getV2('me');
+		if (!me) {
+			throw new Error(
+				'Failed to fetch your SoundCloud account. Please check your SoundCloud credentials.',
+			);
+		}
+		return me;
+	}
+
 	async cleanup(prompt = true): Promise<
 		| {
 				unfollowed: number;
@@ -91,12 +221,7 @@ export class SoundcloudClient {
 			}
 		}
 
-		const me = await this.soundcloud.api.getV2('me');
-		if (!me) {
-			throw new Error(
-				'Failed to fetch your SoundCloud account. Please check your SoundCloud credentials.',
-			);
-		}
+		const me = await this.getMe();
 
 		const unfollowed = await this.unfollowAllUsers(me.id);
 		const unliked = await this.unlikeAllTracks(me.id);
@@ -112,7 +237,7 @@ export class SoundcloudClient {
 	}
 
 	private async unfollowAllUsers(meId: string): Promise<number> {
-		const { collection: following } = await this.soundcloud.api.getV2(
+		const { collection: following } = await this.getV2(
 			`users/${meId}/followings`,
 		);
 		if (!following?.length) {
@@ -124,7 +249,7 @@ export class SoundcloudClient {
 		let count = 0;
 		for (const user of following) {
 			try {
-				await this.soundcloud.api.deleteV2(`me/followings/${user.id}`);
+				await this.deleteV2(`me/followings/${user.id}`);
 				console.log(`✓ Unfollowed ${user.username} (${user.id})`);
 				count++;
 			} catch (error) {
@@ -138,9 +263,7 @@ export class SoundcloudClient {
 	}
 
 	private async unlikeAllTracks(meId: string): Promise<number> {
-		const { collection: likes } = await this.soundcloud.api.getV2(
-			`users/${meId}/likes`,
-		);
+		const { collection: likes } = await this.getV2(`users/${meId}/likes`);
 		if (!likes?.length) {
 			console.log('No tracks to unlike');
 			return 0;
@@ -150,9 +273,7 @@ export class SoundcloudClient {
 		let count = 0;
 		for (const like of likes) {
 			try {
-				await this.soundcloud.api.deleteV2(
-					`users/${meId}/track_likes/${like.track.id}`,
-				);
+				await this.deleteV2(`users/${meId}/track_likes/${like.track.id}`);
 				console.log(`✓ Unliked ${like.track.title} (${like.track.id})`);
 				count++;
 			} catch (error) {
@@ -166,9 +287,7 @@ export class SoundcloudClient {
 	}
 
 	private async deleteAllComments(meId: string): Promise<number> {
-		const { collection: comments } = await this.soundcloud.api.getV2(
-			`users/${meId}/comments`,
-		);
+		const { collection: comments } = await this.getV2(`users/${meId}/comments`);
 		if (!comments?.length) {
 			console.log('No comments to delete');
 			return 0;
@@ -178,7 +297,7 @@ export class SoundcloudClient {
 		let count = 0;
 		for (const comment of comments) {
 			try {
-				await this.soundcloud.api.deleteV2(`comments/${comment.id}`);
+				await this.deleteV2(`comments/${comment.id}`);
 				console.log(`✓ Deleted comment ${comment.id}`);
 				count++;
 			} catch (error) {
@@ -189,10 +308,9 @@ export class SoundcloudClient {
 	}
 
 	private async deleteAllReposts(): Promise<number> {
-		const { collection: reposts } = await this.soundcloud.api.getV2(
-			`me/track_reposts/ids`,
-			{ limit: 200 },
-		);
+		const { collection: reposts } = await this.getV2(`me/track_reposts/ids`, {
+			limit: 200,
+		});
 		if (!reposts?.length) {
 			console.log('No reposts to delete');
 			return 0;
@@ -202,7 +320,7 @@ export class SoundcloudClient {
 		let count = 0;
 		for (const repost of reposts) {
 			try {
-				await this.soundcloud.api.deleteV2(`me/track_reposts/${repost}`);
+				await this.deleteV2(`me/track_reposts/${repost}`);
 				console.log(`✓ Deleted repost ${repost}`);
 				count++;
 			} catch (error) {
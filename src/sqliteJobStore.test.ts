@@ -0,0 +1,109 @@
+import { Database } from 'bun:sqlite';
+import { afterEach, describe, expect, test } from 'bun:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { SqliteJobStore } from './sqliteJobStore';
+
+let dir: string | undefined;
+
+async function databasePath(): Promise<string> {
+	dir ??= await mkdtemp(join(tmpdir(), 'job-store-test-'));
+	return join(dir, 'jobs.sqlite');
+}
+
+afterEach(async () => {
+	if (dir) {
+		await rm(dir, { recursive: true, force: true });
+		dir = undefined;
+	}
+});
+
+describe('SqliteJobStore', () => {
+	test('keeps the artwork and the latest progress across restarts', async () => {
+		const path = await databasePath();
+		const store = new SqliteJobStore(path);
+		const job = store.create('https://soundcloud.com/artist/track');
+		store.update(job.id, {
+			artworkBuffer: new Uint8Array([1, 2, 3]).buffer,
+			artworkFileName: 'cover.jpg',
+		});
+		store.update(job.id, { downloadFilename: 'track.wav' });
+		store.updateProgress(job.id, 'downloading', 'Downloading', 50, {
+			downloadBytes: 512,
+			totalBytes: 1024,
+		});
+		store.updateProgress(job.id, 'ready', 'Ready', 100);
+		store.close();
+
+		const reopened = new SqliteJobStore(path);
+		const restored = reopened.get(job.id);
+		reopened.close();
+
+		expect(restored?.progress).toEqual({
+			stage: 'ready',
+			message: 'Ready',
+			percent: 100,
+		});
+		expect(restored?.downloadFilename).toBe('track.wav');
+		expect(restored?.artworkFileName).toBe('cover.jpg');
+		expect(
+			new Uint8Array(restored?.artworkBuffer ?? new ArrayBuffer(0)),
+		).toEqual(new Uint8Array([1, 2, 3]));
+	});
+
+	test('adds the output path to databases of older versions', async () => {
+		const path = await databasePath();
+		const db = new Database(path);
+		db.run(`
+			CREATE TABLE jobs (
+				id TEXT PRIMARY KEY,
+				soundcloud_url TEXT NOT NULL,
+				hypeddit_url TEXT,
+				track TEXT,
+				default_metadata TEXT,
+				progress TEXT NOT NULL,
+				download_filename TEXT,
+				output_filename TEXT,
+				artwork BLOB,
+				artwork_file_name TEXT,
+				error TEXT,
+				created_at INTEGER NOT NULL,
+				updated_at INTEGER NOT NULL
+			)
+		`);
+		db.run(
+			`INSERT INTO jobs (id, soundcloud_url, progress, output_filename, created_at, updated_at)
+			VALUES ('old', 'https://soundcloud.com/a/b', '{"stage":"ready","message":"Ready","percent":100}', 'b.mp3', 0, 0)`,
+		);
+		db.close();
+
+		const store = new SqliteJobStore(path);
+		expect(store.get('old')?.outputPath).toBeNull();
+		store.update('old', { outputPath: 'library/b.mp3' });
+		store.close();
+
+		const reopened = new SqliteJobStore(path);
+		expect(reopened.get('old')?.outputPath).toBe('library/b.mp3');
+		reopened.close();
+	});
+
+	test('marks running jobs as interrupted on restart', async () => {
+		const path = await databasePath();
+		const store = new SqliteJobStore(path);
+		const job = store.create('https://soundcloud.com/artist/track');
+		store.updateProgress(job.id, 'downloading', 'Downloading', 50, {
+			downloadBytes: 512,
+		});
+		store.close();
+
+		const reopened = new SqliteJobStore(path);
+		const restored = reopened.get(job.id);
+		reopened.close();
+
+		expect(restored?.progress.stage).toBe('interrupted');
+		expect(restored?.error).toBe(
+			'Interrupted by server restart during downloading',
+		);
+	});
+});
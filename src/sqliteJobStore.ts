@@ -0,0 +1,237 @@
+import { Database } from 'bun:sqlite';
+import { JobStore } from './jobStore';
+import type { Job, JobProgress, JobStage } from './types';
+
+// Stages in which a job is actively being worked on by the server process.
+const IN_FLIGHT_STAGES: JobStage[] = [
+	'queued',
+	'fetching_track',
+	'initializing_browser',
+	'preparing_logins',
+	'handling_gates',
+	'downloading',
+	'processing_audio',
+];
+
+interface JobRow {
+	id: string;
+	soundcloud_url: string;
+	hypeddit_url: string | null;
+	track: string | null;
+	default_metadata: string | null;
+	progress: string;
+	download_filename: string | null;
+	output_filename: string | null;
+	output_path: string | null;
+	artwork: Uint8Array | null;
+	artwork_file_name: string | null;
+	error: string | null;
+	created_at: number;
+	updated_at: number;
+}
+
+function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+	const buffer = new ArrayBuffer(bytes.byteLength);
+	new Uint8Array(buffer).set(bytes);
+	return buffer;
+}
+
+function rowToJob(row: JobRow): Job {
+	return {
+		id: row.id,
+		soundcloudUrl: row.soundcloud_url,
+		hypedditUrl: row.hypeddit_url,
+		track: row.track ? JSON.parse(row.track) : null,
+		defaultMetadata: row.default_metadata
+			? JSON.parse(row.default_metadata)
+			: null,
+		progress: JSON.parse(row.progress),
+		downloadFilename: row.download_filename,
+		outputFilename: row.output_filename,
+		outputPath: row.output_path,
+		artworkBuffer: row.artwork ? toArrayBuffer(row.artwork) : null,
+		artworkFileName: row.artwork_file_name,
+		error: row.error,
+		createdAt: new Date(row.created_at),
+		updatedAt: new Date(row.updated_at),
+	};
+}
+
+/**
+ * SQLite backed job store that keeps jobs, artwork and progress history across
+ * server restarts. Jobs are cached in memory and written through on every change.
+ */
+export class SqliteJobStore extends JobStore {
+	private db: Database;
+
+	constructor(filename: string) {
+		super();
+		this.db = new Database(filename, { create: true, strict: true });
+		this.db.run('PRAGMA journal_mode = WAL');
+		this.db.run('PRAGMA foreign_keys = ON');
+		this.db.run(`
+			CREATE TABLE IF NOT EXISTS jobs (
+				id TEXT PRIMARY KEY,
+				soundcloud_url TEXT NOT NULL,
+				hypeddit_url TEXT,
+				track TEXT,
+				default_metadata TEXT,
+				progress TEXT NOT NULL,
+				download_filename TEXT,
+				output_filename TEXT,
+				output_path TEXT,
+				artwork BLOB,
+				artwork_file_name TEXT,
+				error TEXT,
+				created_at INTEGER NOT NULL,
+				updated_at INTEGER NOT NULL
+			)
+		`);
+		// columns added after the table was first created
+		const columns = this.db
+			.query<{ name: string }, []>('PRAGMA table_info(jobs)')
+			.all()
+			.map((column) => column.name);
+		if (!columns.includes('output_path')) {
+			this.db.run('ALTER TABLE jobs ADD COLUMN output_path TEXT');
+		}
+		this.db.run(`
+			CREATE TABLE IF NOT EXISTS job_progress (
+				id INTEGER PRIMARY KEY AUTOINCREMENT,
+				job_id TEXT NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+				progress TEXT NOT NULL,
+				created_at INTEGER NOT NULL
+			)
+		`);
+		this.db.run(
+			'CREATE INDEX IF NOT EXISTS job_progress_job_id ON job_progress (job_id)',
+		);
+
+		for (const row of this.db.query<JobRow, []>('SELECT * FROM jobs').all()) {
+			this.jobs.set(row.id, rowToJob(row));
+		}
+		this.markInterrupted();
+	}
+
+	/**
+	 * Jobs that were running when the server stopped can't be resumed, so they are
+	 * moved to the interrupted stage and can be started again.
+	 */
+	private markInterrupted(): void {
+		for (const job of this.jobs.values()) {
+			if (IN_FLIGHT_STAGES.includes(job.progress.stage)) {
+				const message = `Interrupted by server restart during ${job.progress.stage}`;
+				this.update(job.id, {
+					error: message,
+					progress: { stage: 'interrupted', message, percent: 0 },
+				});
+			}
+		}
+	}
+
+	override getProgressHistory(id: string): Array<JobProgress & { at: Date }> {
+		return this.db
+			.query<{ progress: string; created_at: number }, [string]>(
+				'SELECT progress, created_at FROM job_progress WHERE job_id = ? ORDER BY id',
+			)
+			.all(id)
+			.map((row) => ({
+				...(JSON.parse(row.progress) as JobProgress),
+				at: new Date(row.created_at),
+			}));
+	}
+
+	override cleanup(maxAgeMs: number = 60 * 60 * 1000): number {
+		const cutoff = Date.now() - maxAgeMs;
+		const expired = this.db
+			.query<{ id: string }, [number]>(
+				'SELECT id FROM jobs WHERE created_at < ?',
+			)
+			.all(cutoff);
+		for (const { id } of expired) {
+			this.delete(id);
+		}
+		return expired.length;
+	}
+
+	protected override persistJob(job: Job): void {
+		this.db
+			.query(
+				// an upsert rather than INSERT OR REPLACE, which would delete the row
+				// and cascade to its progress history
+				`INSERT INTO jobs (
+					id, soundcloud_url, hypeddit_url, track, default_metadata, progress,
+					download_filename, output_filename, output_path, error, created_at,
+					updated_at
+				) VALUES (
+					$id, $soundcloudUrl, $hypedditUrl, $track, $defaultMetadata, $progress,
+					$downloadFilename, $outputFilename, $outputPath, $error, $createdAt,
+					$updatedAt
+				)
+				ON CONFLICT (id) DO UPDATE SET
+					soundcloud_url = excluded.soundcloud_url,
+					hypeddit_url = excluded.hypeddit_url,
+					track = excluded.track,
+					default_metadata = excluded.default_metadata,
+					progress = excluded.progress,
+					download_filename = excluded.download_filename,
+					output_filename = excluded.output_filename,
+					output_path = excluded.output_path,
+					error = excluded.error,
+					updated_at = excluded.updated_at`,
+			)
+			.run({
+				id: job.id,
+				soundcloudUrl: job.soundcloudUrl,
+				hypedditUrl: job.hypedditUrl,
+				track: job.track ? JSON.stringify(job.track) : null,
+				defaultMetadata: job.defaultMetadata
+					? JSON.stringify(job.defaultMetadata)
+					: null,
+				progress: JSON.stringify(job.progress),
+				downloadFilename: job.downloadFilename,
+				outputFilename: job.outputFilename,
+				outputPath: job.outputPath,
+				error: job.error,
+				createdAt: job.createdAt.getTime(),
+				updatedAt: job.updatedAt.getTime(),
+			});
+	}
+
+	protected override persistProgress(job: Job): void {
+		this.db
+			.query('UPDATE jobs SET progress = ?, updated_at = ? WHERE id = ?')
+			.run(JSON.stringify(job.progress), job.updatedAt.getTime(), job.id);
+	}
+
+	protected override persistArtwork(job: Job): void {
+		this.db
+			.query('UPDATE jobs SET artwork = ?, artwork_file_name = ? WHERE id = ?')
+			.run(
+				job.artworkBuffer ? new Uint8Array(job.artworkBuffer) : null,
+				job.artworkFileName,
+				job.id,
+			);
+	}
+
+	protected override removeJob(id: string): void {
+		this.db.query('DELETE FROM jobs WHERE id = ?').run(id);
+	}
+
+	protected override recordProgress(id: string, progress: JobProgress): void {
+		// byte-level download updates arrive several times a second; only the
+		// stage transitions around them are worth keeping
+		if (progress.downloadBytes !== undefined) {
+			return;
+		}
+		this.db
+			.query(
+				'INSERT INTO job_progress (job_id, progress, created_at) VALUES (?, ?, ?)',
+			)
+			.run(id, JSON.stringify(progress), Date.now());
+	}
+
+	close(): void {
+		this.db.close();
+	}
+}
@@ -0,0 +1,124 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { checkCookieFile, checkEnv } from './status';
+
+const DAY = 24 * 60 * 60;
+const now = Date.UTC(2026, 0, 1);
+
+let dir: string | undefined;
+
+async function cookieFile(cookies: unknown[]): Promise<string> {
+	dir ??= await mkdtemp(join(tmpdir(), 'status-test-'));
+	const path = join(dir, 'cookies.json');
+	await Bun.write(path, JSON.stringify(cookies));
+	return path;
+}
+
+function loginExpiringIn(days: number) {
+	return {
+		name: 'oauth_token',
+		value: 'abc',
+		domain: '.soundcloud.com',
+		expirationDate: now / 1000 + days * DAY,
+	};
+}
+
+afterEach(async () => {
+	if (dir) {
+		await rm(dir, { recursive: true, force: true });
+		dir = undefined;
+	}
+});
+
+describe('checkCookieFile', () => {
+	test('reports the expiry of the login cookie', async () => {
+		const path = await cookieFile([loginExpiringIn(30)]);
+
+		expect(
+			await checkCookieFile('soundcloud', { required: true, path, now }),
+		).toEqual({
+			name: 'SoundCloud cookies',
+			status: 'ok',
+			message: 'valid until 2026-01-31',
+			expiresAt: '2026-01-31T00:00:00.000Z',
+		});
+	});
+
+	test('warns ahead of the expiry', async () => {
+		const path = await cookieFile([loginExpiringIn(3)]);
+
+		const check = await checkCookieFile('soundcloud', {
+			required: true,
+			path,
+			now,
+			warningDays: 7,
+		});
+
+		expect(check.status).toBe('warning');
+		expect(check.message).toStartWith(
+			'the login expires on 2026-01-04 (in 3 days)',
+		);
+		expect(
+			(
+				await checkCookieFile('soundcloud', {
+					required: true,
+					path,
+					now,
+					warningDays: 2,
+				})
+			).status,
+		).toBe('ok');
+	});
+
+	test('fails for expired and missing logins', async () => {
+		const expired = await checkCookieFile('soundcloud', {
+			required: true,
+			path: await cookieFile([loginExpiringIn(-1)]),
+			now,
+		});
+		expect(expired.status).toBe('error');
+		expect(expired.message).toStartWith('the login expired on 2025-12-31');
+
+		const path = join(tmpdir(), 'no-such-cookies.json');
+		expect(
+			(await checkCookieFile('soundcloud', { required: true, path, now }))
+				.status,
+		).toBe('error');
+		expect(
+			(await checkCookieFile('spotify', { required: false, path, now })).status,
+		).toBe('ok');
+	});
+
+	test('warns when the login cookie is missing', async () => {
+		const path = await cookieFile([
+			{ name: 'sc_anonymous_id', value: 'x', domain: '.soundcloud.com' },
+		]);
+
+		const check = await checkCookieFile('soundcloud', {
+			required: true,
+			path,
+			now,
+		});
+
+		expect(check.status).toBe('warning');
+		expect(check.message).toContain('has no oauth_token cookie');
+	});
+});
+
+describe('checkEnv', () => {
+	test('lists the missing variables', () => {
+		expect(
+			checkEnv({
+				SC_CLIENT_ID: 'id',
+				SC_OAUTH_TOKEN: 'token',
+				SC_COMMENT: 'nice',
+			}),
+		).toEqual({
+			name: 'Environment',
+			status: 'error',
+			message: 'HYPEDDIT_NAME, HYPEDDIT_EMAIL not set in your .env file',
+		});
+	});
+});
@@ -0,0 +1,189 @@
+import { COOKIE_SITES, readCookieFile } from './cookieFiles';
+import { SoundcloudClient } from './soundcloud';
+import type { LocalCookieData } from './types';
+import { getFfmpegBin, getFfprobeBin } from './utils';
+
+// Health check of everything a download depends on, shared by the `doctor`
+// command and GET /api/status, so expired logins show up before a run fails.
+
+export type StatusLevel = 'ok' | 'warning' | 'error';
+
+export interface StatusCheck {
+	name: string;
+	status: StatusLevel;
+	message: string;
+	// expiry of the login, as an ISO date
+	expiresAt?: string;
+}
+
+export interface StatusReport {
+	// false if any check failed, warnings don't count
+	ok: boolean;
+	checks: StatusCheck[];
+}
+
+export const DEFAULT_EXPIRY_WARNING_DAYS = 7;
+
+const REQUIRED_ENV = [
+	'SC_CLIENT_ID',
+	'SC_OAUTH_TOKEN',
+	'SC_COMMENT',
+	'HYPEDDIT_NAME',
+	'HYPEDDIT_EMAIL',
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// the sites whose logins are checked
+const LOGIN_SITES = { soundcloud: 'SoundCloud', spotify: 'Spotify' };
+
+async function checkBinary(
+	name: string,
+	find: () => Promise<string>,
+): Promise<StatusCheck> {
+	try {
+		return { name, status: 'ok', message: await find() };
+	} catch (error) {
+		return {
+			name,
+			status: 'error',
+			message: error instanceof Error ? error.message : String(error),
+		};
+	}
+}
+
+export function checkEnv(env = process.env): StatusCheck {
+	const missing = REQUIRED_ENV.filter((name) => !env[name]);
+	return missing.length
+		? {
+				name: 'Environment',
+				status: 'error',
+				message: `${missing.join(', ')} not set in your .env file`,
+			}
+		: { name: 'Environment', status: 'ok', message: 'all variables set' };
+}
+
+async function checkSoundcloudToken(): Promise<StatusCheck> {
+	const name = 'SoundCloud token';
+	if (!process.env.SC_CLIENT_ID || !process.env.SC_OAUTH_TOKEN) {
+		return {
+			name,
+			status: 'error',
+			message: 'SC_CLIENT_ID and SC_OAUTH_TOKEN are needed to check it',
+		};
+	}
+	try {
+		const me = await new SoundcloudClient().getMe();
+		return { name, status: 'ok', message: `logged in as ${me.username}` };
+	} catch (error) {
+		return {
+			name,
+			status: 'error',
+			message: `could not fetch your account with SC_OAUTH_TOKEN, copy a new token from your browser if it expired (${error instanceof Error ? error.message : String(error)})`,
+		};
+	}
+}
+
+function formatDate(date: Date): string {
+	return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Reports the login cookie of a cookie file: missing, expired, or expiring
+ * within `warningDays`
+ */
+export async function checkCookieFile(
+	site: keyof typeof LOGIN_SITES,
+	{
+		required,
+		warningDays = DEFAULT_EXPIRY_WARNING_DAYS,
+		path = COOKIE_SITES[site].file,
+		now = Date.now(),
+	}: {
+		// a missing optional file is fine, the features using it are skipped
+		required: boolean;
+		warningDays?: number;
+		path?: string;
+		now?: number;
+	},
+): Promise<StatusCheck> {
+	const name = `${LOGIN_SITES[site]} cookies`;
+	if (!(await Bun.file(path).exists())) {
+		return required
+			? { name, status: 'error', message: `${path} is missing` }
+			: {
+					name,
+					status: 'ok',
+					message: `${path} not set up, only needed for Spotify gates`,
+				};
+	}
+
+	let cookies: LocalCookieData[];
+	try {
+		cookies = await readCookieFile(path);
+	} catch (error) {
+		return {
+			name,
+			status: 'error',
+			message: `${path} can't be read: ${error instanceof Error ? error.message : String(error)}`,
+		};
+	}
+	const { loginCookie } = COOKIE_SITES[site];
+	const login = cookies.find((cookie) => cookie.name === loginCookie);
+	if (!login) {
+		return {
+			name,
+			status: 'warning',
+			message: `${path} has no ${loginCookie} cookie, export the cookies while logged in`,
+		};
+	}
+	if (!login.expirationDate) {
+		return {
+			name,
+			status: 'ok',
+			message: `the ${loginCookie} cookie has no expiry date`,
+		};
+	}
+
+	const expiresAt = new Date(login.expirationDate * 1000);
+	const daysLeft = Math.floor((expiresAt.getTime() - now) / DAY_MS);
+	if (expiresAt.getTime() <= now) {
+		return {
+			name,
+			status: 'error',
+			message: `the login expired on ${formatDate(expiresAt)}, export the cookies again`,
+			expiresAt: expiresAt.toISOString(),
+		};
+	}
+	if (daysLeft < warningDays) {
+		return {
+			name,
+			status: 'warning',
+			message: `the login expires on ${formatDate(expiresAt)} (${daysLeft === 0 ? 'today' : `in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`}), export the cookies again soon`,
+			expiresAt: expiresAt.toISOString(),
+		};
+	}
+	return {
+		name,
+		status: 'ok',
+		message: `valid until ${formatDate(expiresAt)}`,
+		expiresAt: expiresAt.toISOString(),
+	};
+}
+
+export async function getStatus(
+	warningDays = DEFAULT_EXPIRY_WARNING_DAYS,
+): Promise<StatusReport> {
+	const checks = await Promise.all([
+		checkBinary('ffmpeg', getFfmpegBin),
+		checkBinary('ffprobe', getFfprobeBin),
+		checkEnv(),
+		checkSoundcloudToken(),
+		checkCookieFile('soundcloud', { required: true, warningDays }),
+		checkCookieFile('spotify', { required: false, warningDays }),
+	]);
+	return {
+		ok: checks.every((check) => check.status !== 'error'),
+		checks,
+	};
+}
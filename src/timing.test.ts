@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import {
+	configureTiming,
+	formatDuration,
+	getTiming,
+	TIMING_PROFILES,
+	validateTiming,
+} from './timing';
+
+afterEach(() => {
+	configureTiming({});
+});
+
+describe('validateTiming', () => {
+	test('accepts a profile with overrides', () => {
+		expect(validateTiming({ profile: 'slow', jobDeadlineMs: 3_600_000 })).toBe(
+			true,
+		);
+		expect(validateTiming({})).toBe(true);
+	});
+
+	test('rejects unknown profiles and settings', () => {
+		expect(validateTiming({ profile: 'turbo' })).toBe(
+			'profile must be one of fast, default, slow',
+		);
+		expect(validateTiming({ pageLoad: 1000 })).toStartWith(
+			'unknown setting pageLoad',
+		);
+		expect(validateTiming({ popupMs: -1 })).toBe(
+			'popupMs must be a positive number of milliseconds',
+		);
+		expect(validateTiming([])).toBe('must be an object');
+	});
+});
+
+describe('configureTiming', () => {
+	test('overrides single values of the profile', () => {
+		configureTiming({ profile: 'slow', gateDelayMs: 250 });
+
+		expect(getTiming()).toEqual({ ...TIMING_PROFILES.slow, gateDelayMs: 250 });
+	});
+
+	test('uses the default profile without one', () => {
+		configureTiming({ downloadMs: 60_000 });
+
+		expect(getTiming().pageLoadMs).toBe(TIMING_PROFILES.default.pageLoadMs);
+		expect(getTiming().downloadMs).toBe(60_000);
+	});
+});
+
+describe('formatDuration', () => {
+	test('formats seconds and minutes', () => {
+		expect(formatDuration(5_000)).toBe('5s');
+		expect(formatDuration(15 * 60_000)).toBe('15 min');
+		expect(formatDuration(90_000)).toBe('1 min 30s');
+	});
+});
@@ -0,0 +1,123 @@
+// Timeouts and waits of the browser flow, picked with the `timing` key in
+// config.json: a preset profile, optionally with single values overridden, e.g.
+// { "profile": "slow", "jobDeadlineMs": 3600000 }.
+
+export interface TimingProfile {
+	// page loads: waiting for the network to become idle after a navigation
+	pageLoadMs: number;
+	// elements and OR gate options to show up on the gate page
+	elementMs: number;
+	// a gate button to open its popup window
+	popupMs: number;
+	// the popup window to load
+	popupLoadMs: number;
+	// the gate page to update after a popup was closed
+	popupCloseMs: number;
+	// pause between two gates, so the page can finish its transition
+	gateDelayMs: number;
+	// the download button is clicked again if no download started by then
+	downloadStartMs: number;
+	// the download to complete after the first click
+	downloadMs: number;
+	// the whole browser job, from opening the post to the saved file
+	jobDeadlineMs: number;
+}
+
+export type TimingProfileName = 'fast' | 'default' | 'slow';
+
+export const TIMING_PROFILES: Record<TimingProfileName, TimingProfile> = {
+	fast: {
+		pageLoadMs: 15_000,
+		elementMs: 15_000,
+		popupMs: 3_000,
+		popupLoadMs: 8_000,
+		popupCloseMs: 1_500,
+		gateDelayMs: 500,
+		downloadStartMs: 5_000,
+		downloadMs: 5 * 60_000,
+		jobDeadlineMs: 10 * 60_000,
+	},
+	default: {
+		pageLoadMs: 30_000,
+		elementMs: 30_000,
+		popupMs: 5_000,
+		popupLoadMs: 15_000,
+		popupCloseMs: 3_000,
+		gateDelayMs: 1_000,
+		downloadStartMs: 10_000,
+		downloadMs: 10 * 60_000,
+		jobDeadlineMs: 15 * 60_000,
+	},
+	// for slow or high-latency connections, e.g. through a proxy
+	slow: {
+		pageLoadMs: 60_000,
+		elementMs: 60_000,
+		popupMs: 15_000,
+		popupLoadMs: 30_000,
+		popupCloseMs: 6_000,
+		gateDelayMs: 2_000,
+		downloadStartMs: 20_000,
+		downloadMs: 30 * 60_000,
+		jobDeadlineMs: 45 * 60_000,
+	},
+};
+
+export type TimingConfig = { profile?: string } & Partial<TimingProfile>;
+
+let timing: TimingProfile = { ...TIMING_PROFILES.default };
+
+function isTimingProfileName(value: string): value is TimingProfileName {
+	return value in TIMING_PROFILES;
+}
+
+export function validateTiming(value: unknown): string | true {
+	if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+		return 'must be an object';
+	}
+	for (const [key, setting] of Object.entries(value)) {
+		if (key === 'profile') {
+			if (typeof setting !== 'string' || !isTimingProfileName(setting)) {
+				return `profile must be one of ${Object.keys(TIMING_PROFILES).join(', ')}`;
+			}
+			continue;
+		}
+		if (!(key in TIMING_PROFILES.default)) {
+			return `unknown setting ${key} (expected profile or ${Object.keys(TIMING_PROFILES.default).join(', ')})`;
+		}
+		if (!Number.isInteger(setting) || setting <= 0) {
+			return `${key} must be a positive number of milliseconds`;
+		}
+	}
+	return true;
+}
+
+/**
+ * Uses the given profile with its overrides, e.g. from config.json
+ */
+export function configureTiming({
+	profile = 'default',
+	...overrides
+}: TimingConfig): void {
+	timing = {
+		...TIMING_PROFILES[isTimingProfileName(profile) ? profile : 'default'],
+		...overrides,
+	};
+}
+
+export function getTiming(): Readonly<TimingProfile> {
+	return timing;
+}
+
+export function formatDuration(ms: number): string {
+	if (ms < 60_000) {
+		return `${Math.round(ms / 1000)}s`;
+	}
+	const minutes = Math.floor(ms / 60_000);
+	const seconds = Math.round((ms % 60_000) / 1000);
+	return seconds ? `${minutes} min ${seconds}s` : `${minutes} min`;
+}
+
+// Thrown when a browser job runs past its deadline, naming where it got stuck
+export class JobDeadlineError extends Error {
+	override name = 'JobDeadlineError';
+}
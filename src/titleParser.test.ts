@@ -0,0 +1,121 @@
+import { describe, expect, test } from 'bun:test';
+import { formatArtist, type ParsedTitle, parseTrackTitle } from './titleParser';
+
+const cases: Array<[string, Partial<ParsedTitle>]> = [
+	['Artist - Track', { artist: 'Artist', title: 'Track' }],
+	['Track', { artist: undefined, title: 'Track' }],
+	['Jay-Z - Track', { artist: 'Jay-Z', title: 'Track' }],
+	['Artist – Track (VIP)', { artist: 'Artist', title: 'Track (VIP)' }],
+	['Artist — Track', { artist: 'Artist', title: 'Track' }],
+	[
+		'Artist - Track (Extended Mix)',
+		{ artist: 'Artist', title: 'Track (Extended Mix)' },
+	],
+	[
+		'Artist - Track (X Remix) [FREE DL]',
+		{ artist: 'Artist', title: 'Track (X Remix)' },
+	],
+	['Artist - Track [FREE DOWNLOAD]', { artist: 'Artist', title: 'Track' }],
+	['Artist - Track (Free DL)', { artist: 'Artist', title: 'Track' }],
+	['Artist - Track *FREE DOWNLOAD*', { artist: 'Artist', title: 'Track' }],
+	['Artist - Track OUT NOW!', { artist: 'Artist', title: 'Track' }],
+	['Artist - Track | OUT NOW on Label', { artist: 'Artist', title: 'Track' }],
+	[
+		'Artist - Track (Original Mix) | Free Download',
+		{ artist: 'Artist', title: 'Track (Original Mix)' },
+	],
+	['Artist - Track [BUY = FREE DL]', { artist: 'Artist', title: 'Track' }],
+	['Premiere: Artist - Track', { artist: 'Artist', title: 'Track' }],
+	['FREE DL | Artist - Track', { artist: 'Artist', title: 'Track' }],
+	['Artist - Track 【Free Download】', { artist: 'Artist', title: 'Track' }],
+	[
+		'Artist ft. Singer - Track',
+		{ artist: 'Artist', title: 'Track', featuring: ['Singer'] },
+	],
+	[
+		'Artist feat. Singer & Rapper - Track',
+		{ artist: 'Artist', title: 'Track', featuring: ['Singer', 'Rapper'] },
+	],
+	[
+		'Artist - Track (feat. Singer) [Free DL]',
+		{ artist: 'Artist', title: 'Track', featuring: ['Singer'] },
+	],
+	[
+		'Artist - Track ft. Singer',
+		{ artist: 'Artist', title: 'Track', featuring: ['Singer'] },
+	],
+	[
+		'Artist featuring Singer - Track (C Bootleg)[BUY = FREE DL]',
+		{
+			artist: 'Artist',
+			title: 'Track (C Bootleg)',
+			featuring: ['Singer'],
+		},
+	],
+	[
+		'Artist - Track (X & Y Remix)',
+		{ artist: 'Artist', title: 'Track (X & Y Remix)' },
+	],
+	['Artist - Track - X Remix', { artist: 'Artist', title: 'Track (X Remix)' }],
+	[
+		'Artist x Other - Track (Other Edit)',
+		{
+			artist: 'Artist x Other',
+			title: 'Track (Other Edit)',
+		},
+	],
+	[
+		'Artist - Track (Radio Edit)',
+		{ artist: 'Artist', title: 'Track (Radio Edit)' },
+	],
+	[
+		'Artist - Track (feat. Singer) (X Remix) [FREE DOWNLOAD]',
+		{
+			artist: 'Artist',
+			title: 'Track (X Remix)',
+			featuring: ['Singer'],
+		},
+	],
+	['FREE DOWNLOAD', { artist: undefined, title: 'FREE DOWNLOAD' }],
+	[
+		'Artist - Track (Free Spirit Remix)',
+		{ artist: 'Artist', title: 'Track (Free Spirit Remix)' },
+	],
+	[
+		'Artist - Track (Click Remix)',
+		{ artist: 'Artist', title: 'Track (Click Remix)' },
+	],
+	[
+		'Artist - Track (Premiere Remix) [Premiere]',
+		{ artist: 'Artist', title: 'Track (Premiere Remix)' },
+	],
+	['Artist - Track (Buy Link)', { artist: 'Artist', title: 'Track' }],
+	['Artist - Track [Click Buy]', { artist: 'Artist', title: 'Track' }],
+	['Artist - Track (FREE!)', { artist: 'Artist', title: 'Track' }],
+	['Artist - Track (Buy Me)', { artist: 'Artist', title: 'Track (Buy Me)' }],
+	['Artist - Out Now', { artist: 'Artist', title: 'Out Now' }],
+];
+
+describe('parseTrackTitle', () => {
+	test.each(cases)('%p', (input, expected) => {
+		expect(parseTrackTitle(input)).toMatchObject(expected);
+	});
+});
+
+describe('formatArtist', () => {
+	test('appends featured artists', () => {
+		expect(formatArtist('Artist', ['Singer', 'Rapper'])).toBe(
+			'Artist feat. Singer, Rapper',
+		);
+	});
+
+	test('leaves artists without features unchanged', () => {
+		expect(formatArtist('Artist', [])).toBe('Artist');
+	});
+
+	test('does not repeat artists that are already credited', () => {
+		expect(formatArtist('Artist feat. Singer', ['Singer'])).toBe(
+			'Artist feat. Singer',
+		);
+	});
+});
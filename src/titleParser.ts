@@ -0,0 +1,132 @@
+export interface ParsedTitle {
+	// undefined when the title has no "Artist - Title" separator
+	artist?: string;
+	title: string;
+	featuring: string[];
+}
+
+// Bracketed groups: (), [], {} and the full-width 【】 some uploaders use
+const BRACKET_PATTERN = /\s*[([{【]([^)\]}】]*)[)\]}】]/g;
+
+// Content of a bracketed group that is promotion rather than part of the title.
+// Single words like "free" or "buy" only count as the whole group, so remix
+// credits like "(Free Spirit Remix)" stay.
+const PROMO_PATTERN =
+	/^(?:free|(?:click\s+)?buy(?:\s+link)?|(?:world\s+|exclusive\s+)?premiere)[\s!.*]*$|\bfree\s*(?:dl|d\/l|download)\b|\bout\s+now\b|\bsupported\s+by\b|\bhypeddit\b/i;
+
+// Promotion outside of brackets, e.g. "*FREE DOWNLOAD*" or "| OUT NOW on Label"
+const LOOSE_PROMO_PATTERN =
+	/[\s|*/~\-–—]*\b(?:free\s*(?:dl|d\/l|download)|out\s+now(?:\s+(?:on|via)\s.*$)?)\b[\s!*]*/gi;
+
+// "Premiere: ", "FREE DL | " and similar prefixes before the actual title
+const PROMO_PREFIX_PATTERN =
+	/^\s*(?:premiere|exclusive|free\s*(?:dl|d\/l|download))\s*[:|\-–—]\s*/i;
+
+// Separators between artist and title. Dashes need surrounding whitespace so
+// names like "Jay-Z" stay intact.
+const SEPARATOR_PATTERN = /\s+[-–—~|]\s+/;
+
+const FEATURING_PATTERN = /\s+(?:feat\.?|ft\.?|featuring)\s+/i;
+
+const CREDIT_SEPARATOR_PATTERN = /\s*(?:,|&|\band\b)\s*/i;
+
+const REMIX_PATTERN =
+	/^.+?\s+(?:remix|rmx|re-?work|edit|flip|bootleg|refix|vip(?:\s+mix)?|mashup)$/i;
+
+function isPromotion(groupContent: string): boolean {
+	const content = groupContent.trim();
+	return !REMIX_PATTERN.test(content) && PROMO_PATTERN.test(content);
+}
+
+function splitCredits(value: string): string[] {
+	return value
+		.split(CREDIT_SEPARATOR_PATTERN)
+		.map((credit) => credit.trim())
+		.filter(Boolean);
+}
+
+function tidy(value: string): string {
+	return value
+		.replace(/\s+/g, ' ')
+		.replace(/^[\s|*/~\-–—:]+|[\s|*/~\-–—:]+$/g, '')
+		.trim();
+}
+
+function stripPromotion(value: string): string {
+	const withoutBrackets = tidy(
+		value
+			.replace(BRACKET_PATTERN, (group, content) =>
+				isPromotion(content) ? '' : group,
+			)
+			.replace(PROMO_PREFIX_PATTERN, ''),
+	);
+	const withoutLoose = tidy(withoutBrackets.replace(LOOSE_PROMO_PATTERN, ' '));
+	// in "Artist - Out Now" the phrase is the title, not promotion
+	return SEPARATOR_PATTERN.test(withoutBrackets) &&
+		!SEPARATOR_PATTERN.test(withoutLoose)
+		? withoutBrackets
+		: withoutLoose;
+}
+
+// Splits "Artist ft. Singer" into the artist and the featured credits
+function extractFeaturing(value: string): {
+	rest: string;
+	featuring: string[];
+} {
+	const [rest = '', ...featured] = value.split(FEATURING_PATTERN);
+	return { rest: tidy(rest), featuring: featured.flatMap(splitCredits) };
+}
+
+/**
+ * Parses uploads titled like "Artist ft. Singer - Track (X Remix) [FREE DL]"
+ * into artist, title and featured artists, dropping promo noise. Remix credits
+ * stay in the title, featured artists move to their own list.
+ */
+export function parseTrackTitle(rawTitle: string): ParsedTitle {
+	const cleaned = stripPromotion(rawTitle);
+	const separator = cleaned.match(SEPARATOR_PATTERN);
+
+	let artistPart: string | undefined;
+	let titlePart = cleaned;
+	if (separator?.index !== undefined) {
+		artistPart = cleaned.slice(0, separator.index);
+		titlePart = cleaned.slice(separator.index + separator[0].length);
+
+		// "Artist - Track - X Remix" is written as "Artist - Track (X Remix)"
+		const [track = '', ...versions] = titlePart.split(SEPARATOR_PATTERN);
+		titlePart = [track, ...versions.map((version) => `(${version})`)].join(' ');
+	}
+
+	const featuring: string[] = [];
+
+	// featured artists in brackets, e.g. "Track (feat. Singer)"
+	titlePart = titlePart.replace(BRACKET_PATTERN, (group, content: string) => {
+		const credit = content.match(/^\s*(?:feat\.?|ft\.?|featuring)\s+(.+)$/i);
+		if (credit?.[1]) {
+			featuring.push(...splitCredits(credit[1]));
+			return '';
+		}
+		return group;
+	});
+
+	// and outside of them, e.g. "Track ft. Singer"
+	const title = extractFeaturing(titlePart);
+	const artist = artistPart ? extractFeaturing(artistPart) : undefined;
+
+	return {
+		artist: artist?.rest || undefined,
+		title: title.rest || cleaned || rawTitle.trim(),
+		featuring: [...(artist?.featuring ?? []), ...title.featuring, ...featuring],
+	};
+}
+
+/**
+ * Artist tag value with the featured artists appended, e.g. "Artist feat. Singer".
+ * Names the artist already mentions are not repeated.
+ */
+export function formatArtist(artist: string, featuring: string[]): string {
+	const missing = featuring.filter(
+		(name) => !artist.toLowerCase().includes(name.toLowerCase()),
+	);
+	return missing.length ? `${artist} feat. ${missing.join(', ')}` : artist;
+}
@@ -21,11 +21,24 @@ export interface Metadata {
 	artist?: string;
 	album?: string;
 	genre?: string;
+	// release date as YYYY-MM-DD or just the year
+	date?: string;
+	label?: string;
+	bpm?: string;
+	key?: string;
+	composer?: string;
+	// "3" or "3/12"
+	trackNumber?: string;
+	discNumber?: string;
+	comment?: string;
+	// SoundCloud permalink of the track
+	sourceUrl?: string;
 }
 
 // Job system types for Web UI
 export type JobStage =
 	| 'pending'
+	| 'queued'
 	| 'fetching_track'
 	| 'waiting_hypeddit'
 	| 'initializing_browser'
@@ -34,7 +47,10 @@ export type JobStage =
 	| 'downloading'
 	| 'processing_audio'
 	| 'ready'
-	| 'error';
+	| 'error'
+	| 'cancelled'
+	// the server stopped while the job was running
+	| 'interrupted';
 
 export interface JobProgress {
 	stage: JobStage;
@@ -46,6 +62,8 @@ export interface JobProgress {
 	// True when the download was handled without a browser. Such downloads never
 	// touch the SoundCloud account, so the UI can skip the cleanup prompt.
 	browserless?: boolean;
+	// 1-based position while waiting in the download queue.
+	queuePosition?: number;
 }
 
 export interface Job {
@@ -72,6 +90,8 @@ export interface Job {
 	progress: JobProgress;
 	downloadFilename: string | null;
 	outputFilename: string | null;
+	// where the processed file was saved, under the output root of config.json
+	outputPath: string | null;
 	artworkBuffer: ArrayBuffer | null;
 	artworkFileName: string | null;
 	error: string | null;
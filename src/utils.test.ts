@@ -0,0 +1,60 @@
+import { describe, expect, test } from 'bun:test';
+import {
+	getSoundcloudUrlKind,
+	parseMetadataBody,
+	type SoundcloudUrlKind,
+} from './utils';
+
+describe('parseMetadataBody', () => {
+	test('turns numbers into strings', () => {
+		expect(parseMetadataBody({ bpm: 128, trackNumber: 3 })).toEqual({
+			metadata: { bpm: '128', trackNumber: '3' },
+		});
+	});
+
+	test('keeps only the metadata fields', () => {
+		expect(
+			parseMetadataBody({
+				title: 'Track',
+				comment: '',
+				artworkBuffer: 'x',
+				outputFormat: 'flac',
+			}),
+		).toEqual({ metadata: { title: 'Track' }, outputFormat: 'flac' });
+	});
+
+	test.each([
+		[{ bpm: true }, 'bpm must be a string'],
+		[{ title: ['Track'] }, 'title must be a string'],
+		[{ bpm: Number.NaN }, 'bpm must be a string'],
+		[{ outputFormat: 320 }, 'outputFormat must be a string'],
+		[['title'], 'Expected a JSON object'],
+		[null, 'Expected a JSON object'],
+	])('rejects %p', (body, error) => {
+		expect(parseMetadataBody(body)).toBe(error);
+	});
+});
+
+const urlKindCases: Array<[string, SoundcloudUrlKind | null]> = [
+	['https://soundcloud.com/artist/track', 'track'],
+	['https://soundcloud.com/artist/track?in=artist/sets/ep', 'track'],
+	['https://soundcloud.com/artist/sets/ep', 'playlist'],
+	['https://soundcloud.com/artist', 'user'],
+	['https://soundcloud.com/artist/tracks', 'user'],
+	['https://soundcloud.com/artist/popular-tracks', 'user'],
+	['https://soundcloud.com/artist/likes', null],
+	['https://soundcloud.com/artist/reposts', null],
+	['https://soundcloud.com/artist/albums', null],
+	['https://soundcloud.com/artist/sets', null],
+	['https://soundcloud.com/artist/followers', null],
+	['https://soundcloud.com/artist/following', null],
+	['https://soundcloud.com/artist/comments', null],
+	['https://soundcloud.com/discover', null],
+	['http://soundcloud.com/artist/track', null],
+];
+
+describe('getSoundcloudUrlKind', () => {
+	test.each(urlKindCases)('%p', (url, expected) => {
+		expect(getSoundcloudUrlKind(url)).toBe(expected);
+	});
+});
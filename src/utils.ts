@@ -1,8 +1,11 @@
+import { join } from 'node:path';
 import { lookpath } from 'find-bin';
 import type { CookieData } from 'puppeteer';
 import type { SoundcloudTrack } from 'soundcloud.ts';
 import packageJson from '../package.json' with { type: 'json' };
-import type { LocalCookieData, Metadata } from './types';
+import { readCookieFile } from './cookieFiles';
+import { formatArtist, parseTrackTitle } from './titleParser';
+import type { Metadata } from './types';
 
 export const REPO_URL = packageJson.repository.url;
 
@@ -30,10 +33,25 @@ export async function timeout(ms: number) {
 	return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+// Removes a (possibly partial) download from ./downloads, including the
+// .crdownload file Chromium writes while a download is in progress and the
+// .part file of the browserless downloader.
+export async function removeDownload(filename: string): Promise<void> {
+	for (const path of [
+		join('./downloads', filename),
+		join('./downloads', `${filename}.crdownload`),
+		join('./downloads', `${filename}.part`),
+	]) {
+		const file = Bun.file(path);
+		if (await file.exists()) {
+			await file.unlink();
+			console.log(`✓ Removed ${path}`);
+		}
+	}
+}
+
 export async function loadCookies(filename: string): Promise<CookieData[]> {
-	const cookiesData: LocalCookieData[] = JSON.parse(
-		await Bun.file(filename).text(),
-	);
+	const cookiesData = await readCookieFile(filename);
 	return cookiesData.map((cookie) => {
 		const puppeteerCookie: CookieData = {
 			name: cookie.name,
@@ -59,8 +77,71 @@ export async function loadCookies(filename: string): Promise<CookieData[]> {
 	});
 }
 
+export type SoundcloudUrlKind = 'track' | 'playlist' | 'user';
+
+// Top-level soundcloud.com paths that are app pages rather than profiles.
+const RESERVED_SOUNDCLOUD_PATHS = new Set([
+	'discover',
+	'feed',
+	'messages',
+	'notifications',
+	'search',
+	'settings',
+	'stream',
+	'upload',
+	'you',
+]);
+
+// Tabs of a profile page that list the profile's own uploads.
+const SOUNDCLOUD_PROFILE_TRACK_TABS = new Set(['tracks', 'popular-tracks']);
+
+// Other tabs of a profile page. They list tracks of other users, playlists or
+// people, so they are neither a track nor the profile's uploads.
+const SOUNDCLOUD_PROFILE_OTHER_TABS = new Set([
+	'likes',
+	'reposts',
+	'albums',
+	'playlists',
+	'followers',
+	'following',
+	'comments',
+]);
+
+export function getSoundcloudUrlKind(value: string): SoundcloudUrlKind | null {
+	let url: URL;
+	try {
+		url = new URL(value);
+	} catch {
+		return null;
+	}
+	if (url.protocol !== 'https:' || url.hostname !== 'soundcloud.com') {
+		return null;
+	}
+
+	const [user, section, ...rest] = url.pathname.split('/').filter(Boolean);
+	if (!user || RESERVED_SOUNDCLOUD_PATHS.has(user)) {
+		return null;
+	}
+	if (
+		!section ||
+		(SOUNDCLOUD_PROFILE_TRACK_TABS.has(section) && !rest.length)
+	) {
+		return 'user';
+	}
+	if (section === 'sets') {
+		return rest.length ? 'playlist' : null;
+	}
+	if (SOUNDCLOUD_PROFILE_OTHER_TABS.has(section)) {
+		return null;
+	}
+	return 'track';
+}
+
 export function validateSoundcloudUrl(value: string): true | string {
-	if (!value?.startsWith('https://soundcloud.com/')) {
+	if (
+		!value?.startsWith('https://soundcloud.com/') ||
+		!getSoundcloudUrlKind(value)
+	) {
 		return 'A valid SoundCloud URL is required';
 	}
 	return true;
@@ -94,15 +175,106 @@ export function extractHypedditUrl(
 	return null;
 }
 
+export const METADATA_FIELDS: Array<keyof Metadata> = [
+	'title',
+	'artist',
+	'album',
+	'genre',
+	'date',
+	'label',
+	'bpm',
+	'key',
+	'composer',
+	'trackNumber',
+	'discNumber',
+	'comment',
+	'sourceUrl',
+];
+
+const METADATA_PATTERNS: Partial<
+	Record<keyof Metadata, { pattern: RegExp; hint: string }>
+> = {
+	date: { pattern: /^\d{4}(-\d{2}(-\d{2})?)?$/, hint: 'YYYY-MM-DD or YYYY' },
+	bpm: { pattern: /^\d+(\.\d+)?$/, hint: 'a number' },
+	trackNumber: { pattern: /^\d+(\/\d+)?$/, hint: 'a number like 3 or 3/12' },
+	discNumber: { pattern: /^\d+(\/\d+)?$/, hint: 'a number like 1 or 1/2' },
+};
+
+export function validateMetadataField(
+	field: keyof Metadata,
+	value: string,
+): string | true {
+	const format = METADATA_PATTERNS[field];
+	if (!value.trim() || !format || format.pattern.test(value.trim())) {
+		return true;
+	}
+	return `${field} must be ${format.hint}`;
+}
+
+// Reads the metadata fields and output format from a JSON request body.
+// Numbers are accepted for numeric fields like bpm; any other non-string value
+// is rejected with an error message.
+export function parseMetadataBody(
+	body: unknown,
+): { metadata: Metadata; outputFormat?: string } | string {
+	if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+		return 'Expected a JSON object';
+	}
+	const values = body as Record<string, unknown>;
+
+	const metadata: Metadata = {};
+	for (const field of METADATA_FIELDS) {
+		const value = values[field];
+		if (value === undefined || value === null || value === '') {
+			continue;
+		}
+		if (typeof value === 'number' && Number.isFinite(value)) {
+			metadata[field] = String(value);
+		} else if (typeof value === 'string') {
+			metadata[field] = value;
+		} else {
+			return `${field} must be a string`;
+		}
+	}
+
+	const { outputFormat } = values;
+	if (outputFormat !== undefined && outputFormat !== null) {
+		if (typeof outputFormat !== 'string') {
+			return 'outputFormat must be a string';
+		}
+		return { metadata, outputFormat: outputFormat || undefined };
+	}
+	return { metadata };
+}
+
+// The API returns these for tracks that have them set, but soundcloud.ts
+// doesn't type them.
+type TrackWithMusicalInfo = SoundcloudTrack & {
+	bpm?: number | null;
+	key_signature?: string | null;
+};
+
 export function getDefaultMetadata(track: SoundcloudTrack): Metadata {
+	const { bpm, key_signature } = track as TrackWithMusicalInfo;
+	// label and promoter channels upload as "Artist - Title (X Remix) [FREE DL]"
+	const parsed = parseTrackTitle(track.title);
+	const artist =
+		track.publisher_metadata?.artist ||
+		parsed.artist ||
+		track.user.full_name ||
+		track.user.username;
 	return {
-		title: track.title,
-		artist:
-			track.publisher_metadata?.artist ||
-			track.user.full_name ||
-			track.user.username,
+		title: parsed.title,
+		artist: formatArtist(artist, parsed.featuring),
 		album: track.publisher_metadata?.album_title || '',
 		genre: track.genre,
+		// ISO timestamp, only the date part is useful as a tag
+		date: track.release_date?.slice(0, 10) || '',
+		label: track.label_name || '',
+		bpm: bpm ? String(Math.round(bpm)) : '',
+		key: key_signature || '',
+		composer: track.publisher_metadata?.writer_composer || '',
+		sourceUrl: track.permalink_url,
 	};
 }
 
@@ -120,10 +292,6 @@ export function isMp3Format(filename: string): boolean {
 	return filename.toLowerCase().endsWith('.mp3');
 }
 
-export function losslessToMp3Filename(filename: string): string {
-	return filename
-		.replace(/\.wav$/i, '.mp3')
-		.replace(/\.aiff$/i, '.mp3')
-		.replace(/\.aif$/i, '.mp3')
-		.replace(/\.flac$/i, '.mp3');
+export function replaceExtension(filename: string, extension: string): string {
+	return filename.replace(/\.[^./]+$/, `.${extension}`);
 }
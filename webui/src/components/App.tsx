@@ -9,6 +9,15 @@ interface Metadata {
 	artist?: string;
 	album?: string;
 	genre?: string;
+	date?: string;
+	label?: string;
+	bpm?: string;
+	key?: string;
+	composer?: string;
+	trackNumber?: string;
+	discNumber?: string;
+	comment?: string;
+	sourceUrl?: string;
 }
 
 interface TrackInfo {
@@ -26,6 +35,7 @@ interface JobProgress {
 	downloadBytes?: number;
 	totalBytes?: number;
 	browserless?: boolean;
+	queuePosition?: number;
 }
 
 interface JobState {
@@ -37,10 +47,52 @@ interface JobState {
 	downloadFilename: string | null;
 	outputFilename: string | null;
 	error: string | null;
+	// a failed browser run saved a bundle that can be attached to an issue
+	hasDiagnostics: boolean;
+}
+
+// GET /api/status: tools, .env values and logins the downloads depend on
+interface StatusCheck {
+	name: string;
+	status: 'ok' | 'warning' | 'error';
+	message: string;
+	expiresAt?: string;
+}
+
+interface StatusReport {
+	ok: boolean;
+	checks: StatusCheck[];
 }
 
 const API_BASE = 'http://localhost:3000';
 
+// Less common tags, shown in the collapsible "More tags" section
+const EXTRA_FIELDS: Array<{
+	key: keyof Metadata;
+	label: string;
+	placeholder: string;
+}> = [
+	{ key: 'date', label: 'Release Date', placeholder: 'YYYY-MM-DD' },
+	{ key: 'label', label: 'Label', placeholder: 'Record label' },
+	{ key: 'bpm', label: 'BPM', placeholder: '128' },
+	{ key: 'key', label: 'Key', placeholder: 'A minor' },
+	{ key: 'composer', label: 'Composer', placeholder: 'Composer' },
+	{ key: 'trackNumber', label: 'Track Number', placeholder: '1/12' },
+	{ key: 'discNumber', label: 'Disc Number', placeholder: '1/1' },
+	{ key: 'comment', label: 'Comment', placeholder: 'Comment' },
+	{ key: 'sourceUrl', label: 'Source URL', placeholder: 'https://soundcloud.com/...' },
+];
+
+const OUTPUT_FORMATS = [
+	{ value: 'mp3:320', label: 'MP3 320kbps' },
+	{ value: 'mp3:v0', label: 'MP3 V0' },
+	{ value: 'flac', label: 'FLAC' },
+	{ value: 'aiff', label: 'AIFF' },
+	{ value: 'alac', label: 'ALAC (M4A)' },
+	{ value: 'aac:256', label: 'AAC 256kbps (M4A)' },
+	{ value: 'opus:160', label: 'Opus 160kbps' },
+];
+
 export default function App() {
 	const [step, setStep] = useState<Step>('url');
 	const [soundcloudUrl, setSoundcloudUrl] = useState('');
@@ -54,6 +106,7 @@ export default function App() {
 		downloadFilename: null,
 		outputFilename: null,
 		error: null,
+		hasDiagnostics: false,
 	});
 	const [metadata, setMetadata] = useState<Metadata>({
 		title: '',
@@ -62,7 +115,12 @@ export default function App() {
 		genre: '',
 	});
 	const [customArtwork, setCustomArtwork] = useState<File | null>(null);
+	// empty until the server sent the format of config.json; the server then
+	// falls back to it by itself
+	const [outputFormat, setOutputFormat] = useState('');
+	const [configFormat, setConfigFormat] = useState<{ value: string; label: string } | null>(null);
 	const [isLoading, setIsLoading] = useState(false);
+	const [status, setStatus] = useState<StatusReport | null>(null);
 	const cleanupToastShownRef = useRef(false);
 	const formatPercent = (value?: number) => Math.round(value ?? 0);
 
@@ -151,6 +209,7 @@ export default function App() {
 				hypedditUrl: data.hypedditUrl,
 				defaultMetadata: data.defaultMetadata,
 				error: null,
+				hasDiagnostics: false,
 			});
 
 			// Pre-fill metadata
@@ -250,11 +309,33 @@ export default function App() {
 				} else if (progress.stage === 'error') {
 					eventSource.close();
 					setJob((prev) => ({ ...prev, error: progress.message }));
+					fetch(`${API_BASE}/api/job/${jobId}`)
+						.then((res) => res.json())
+						.then((data) => {
+							setJob((prev) => ({
+								...prev,
+								hasDiagnostics: Boolean(data.hasDiagnostics),
+							}));
+						});
+				} else if (progress.stage === 'interrupted') {
+					eventSource.close();
+					setJob((prev) => ({ ...prev, error: progress.message }));
+				} else if (progress.stage === 'cancelled') {
+					eventSource.close();
+					toast('Download cancelled');
+					handleReset();
 				}
 			};
 
+			// The browser reconnects on its own, e.g. after a server restart, and
+			// then receives the interrupted stage; only a refused stream ends here
 			eventSource.onerror = () => {
-				eventSource.close();
+				if (eventSource.readyState === EventSource.CLOSED) {
+					setJob((prev) => ({
+						...prev,
+						error: 'Lost the connection to the server',
+					}));
+				}
 			};
 		} catch (err) {
 			setJob((prev) => ({
@@ -264,6 +345,26 @@ export default function App() {
 		}
 	}, [showCleanupSoundcloudToast]);
 
+	// Cancel a queued or running download
+	const handleCancel = async () => {
+		if (!job.jobId) return;
+
+		try {
+			const response = await fetch(`${API_BASE}/api/job/${job.jobId}/cancel`, {
+				method: 'POST',
+			});
+
+			if (!response.ok) {
+				const data = await response.json();
+				throw new Error(data.error || 'Failed to cancel download');
+			}
+		} catch (err) {
+			toast.error('Cancel failed', {
+				description: err instanceof Error ? err.message : 'Unknown error',
+			});
+		}
+	};
+
 	// Process metadata and finalize
 	const handleMetadataSubmit = async (e: React.FormEvent) => {
 		e.preventDefault();
@@ -276,11 +377,11 @@ export default function App() {
 
 			if (customArtwork) {
 				const formData = new FormData();
-				formData.append('title', metadata.title || '');
-				formData.append('artist', metadata.artist || '');
-				formData.append('album', metadata.album || '');
-				formData.append('genre', metadata.genre || '');
+				for (const [field, value] of Object.entries(metadata)) {
+					formData.append(field, value || '');
+				}
 				formData.append('artwork', customArtwork);
+				formData.append('outputFormat', outputFormat);
 
 				response = await fetch(`${API_BASE}/api/job/${job.jobId}/metadata`, {
 					method: 'POST',
@@ -290,7 +391,7 @@ export default function App() {
 				response = await fetch(`${API_BASE}/api/job/${job.jobId}/metadata`, {
 					method: 'POST',
 					headers: { 'Content-Type': 'application/json' },
-					body: JSON.stringify(metadata),
+					body: JSON.stringify({ ...metadata, outputFormat }),
 				});
 			}
 
@@ -325,12 +426,45 @@ export default function App() {
 			downloadFilename: null,
 			outputFilename: null,
 			error: null,
+			hasDiagnostics: false,
 		});
 		setMetadata({ title: '', artist: '', album: '', genre: '' });
 		setCustomArtwork(null);
 		setStep('url');
 	};
 
+	const refreshStatus = useCallback(async () => {
+		try {
+			const response = await fetch(`${API_BASE}/api/status`);
+			if (!response.ok) {
+				throw new Error('Failed to check status');
+			}
+			setStatus(await response.json());
+		} catch {
+			setStatus(null);
+		}
+	}, []);
+
+	useEffect(() => {
+		refreshStatus();
+	}, [refreshStatus]);
+
+	useEffect(() => {
+		fetch(`${API_BASE}/api/config`)
+			.then((res) => res.json())
+			.then((data) => {
+				setConfigFormat({ value: data.outputFormat, label: data.outputFormatLabel });
+				setOutputFormat((current) => current || data.outputFormat);
+			})
+			.catch(() => {});
+	}, []);
+
+	// the format of config.json is offered too when it isn't one of the presets
+	const outputFormats =
+		configFormat && !OUTPUT_FORMATS.some((format) => format.value === configFormat.value)
+			? [configFormat, ...OUTPUT_FORMATS]
+			: OUTPUT_FORMATS;
+
 	const handleInitializeLogins = async () => {
 		toast('Initialize logins?', {
 			description: 'This will open a browser window (non-headless) to initialize SoundCloud and Spotify logins. You may need to solve a captcha if the built-in solver fails.',
@@ -354,6 +488,7 @@ export default function App() {
 						toast.success('Logins initialized successfully.', {
 							id: toastId,
 						});
+						refreshStatus();
 					} catch (err) {
 						toast.error('Login initialization failed', {
 							id: toastId,
@@ -427,6 +562,14 @@ export default function App() {
 				<div className="error-banner">
 					<span className="error-icon">!</span>
 					<span>{job.error}</span>
+					{job.hasDiagnostics && job.jobId && (
+						<a
+							href={`${API_BASE}/api/job/${job.jobId}/diagnostics`}
+							download
+						>
+							Download diagnostics
+						</a>
+					)}
 					<button type="button" onClick={() => setJob((prev) => ({ ...prev, error: null }))}>
 						Dismiss
 					</button>
@@ -524,6 +667,9 @@ export default function App() {
 							{job.progress?.currentGate && (
 								<span className="gate-badge">{job.progress.currentGate.toUpperCase()}</span>
 							)}
+							{job.progress?.stage === 'queued' && job.progress.queuePosition !== undefined && (
+								<span className="gate-badge">#{job.progress.queuePosition} IN QUEUE</span>
+							)}
 						</div>
 						<div className="progress-bar">
 							<div
@@ -541,6 +687,23 @@ export default function App() {
 									</span>
 								)}
 						</div>
+						{job.progress?.stage === 'interrupted' ? (
+							<button
+								type="button"
+								onClick={() => {
+									if (!job.jobId) return;
+									setJob((prev) => ({ ...prev, error: null }));
+									startDownload(job.jobId);
+								}}
+								className="btn-primary"
+							>
+								Start Again
+							</button>
+						) : (
+							<button type="button" onClick={handleCancel} className="btn-secondary btn-cancel">
+								Cancel
+							</button>
+						)}
 					</div>
 				)}
 
@@ -623,6 +786,43 @@ export default function App() {
 										placeholder="Genre"
 									/>
 								</div>
+								<details className="more-tags">
+									<summary>More tags</summary>
+									<div className="more-tags-grid">
+										{EXTRA_FIELDS.map((field) => (
+											<div className="form-group" key={field.key}>
+												<label htmlFor={`meta-${field.key}`}>{field.label}</label>
+												<input
+													id={`meta-${field.key}`}
+													type="text"
+													value={metadata[field.key] || ''}
+													onChange={(e) =>
+														setMetadata((prev) => ({
+															...prev,
+															[field.key]: e.target.value,
+														}))
+													}
+													placeholder={field.placeholder}
+												/>
+											</div>
+										))}
+									</div>
+								</details>
+								<div className="form-group">
+									<label htmlFor="meta-format">Output Format</label>
+									<select
+										id="meta-format"
+										value={outputFormat}
+										onChange={(e) => setOutputFormat(e.target.value)}
+									>
+										{!outputFormat && <option value="">Server default</option>}
+										{outputFormats.map((format) => (
+											<option key={format.value} value={format.value}>
+												{format.label}
+											</option>
+										))}
+									</select>
+								</div>
 							</div>
 						</div>
 
@@ -651,7 +851,7 @@ export default function App() {
 								download
 								className="btn-primary"
 							>
-								Download MP3
+								Download File
 							</a>
 							<button type="button" onClick={handleReset} className="btn-secondary">
 								Start New Download
@@ -662,7 +862,26 @@ export default function App() {
 			</div>
 
 			<footer className="footer">
+				{status ? (
+					<ul className="status-list">
+						{status.checks.map((check) => (
+							<li key={check.name} className={`status-item status-${check.status}`}>
+								<span className="status-name">{check.name}</span>
+								<span>{check.message}</span>
+							</li>
+						))}
+					</ul>
+				) : (
+					<p className="status-unavailable">Status unavailable, is the server running?</p>
+				)}
 				<div className="footer-buttons">
+					<button
+						type="button"
+						className="btn-secondary btn-cleanup"
+						onClick={refreshStatus}
+					>
+						Check Status
+					</button>
 					<button
 						type="button"
 						className="btn-secondary btn-cleanup"